@@ -1,33 +1,108 @@
-import React, { useState, createContext, useContext, ReactNode, useRef, useEffect, useCallback } from 'react';
-import { HashRouter, Routes, Route, useNavigate, useLocation } from 'react-router-dom';
-import { ParsedResume, SuggestedRole, AppStep, LearningResource, QuizQuestion, JobListing } from './types';
-import { parseResumeDocument, generateLearningPath, generateQuiz, generateAptitudePrep, generateFullMockTest, searchJobs, updateApiKey } from './services/geminiService';
+import React, { useState, createContext, useContext, ReactNode, useRef, useEffect, useCallback, useMemo } from 'react';
+import { HashRouter, Routes, Route, useNavigate, useLocation, useParams } from 'react-router-dom';
+import { ParsedResume, SuggestedRole, SkillMatch, SkillMatchStatus, AppStep, ServiceResult, ServiceStatus, ServiceErrorCategory, Workspace, CandidateProfile, TrackArtifacts, QuizSession, QuizAttempt, QuizDifficulty, QuizQuestion, QuizAnswer, QuestionKind, QuestionGrade, ExamTiming, InterviewSession, CodeLanguage, CodingSession, ChallengeTestCase, TestResult, CodeReview, RubricRating, DesignDiagram, DiagramNode, DesignGrade, SystemDesignSession, BehavioralPractice, BehavioralStory, StarFeedback, InterviewScorecard, InterviewTranscript, TranscriptTurn, InterviewerSettings, InterviewContext } from './types';
+import { parseResumeDocument, parseResumeText, generateSuggestedRoles, parseJobDescription, generateLearningPath, generateQuiz, generateAptitudePrep, generateFullMockTest, generateCodingChallenge, reviewCodingSolution, generateDesignPrompt, gradeSystemDesign, generateBehavioralQuestions, scoreStarAnswer, scoreInterview, gradeFreeTextAnswer, searchJobs, updateApiKey, updateProviderSettings } from './services/geminiService';
+import { AIProviderId, AIProviderSettings, OpenAICompatibleConfig, DEFAULT_OPENAI_COMPATIBLE, loadProviderSettings } from './services/aiProvider';
+import { extractDocumentText, SUPPORTED_DOCUMENT_TYPES } from './services/documentExtraction';
+import { scoreSkillMatch } from './services/skillMatching';
+import {
+  createQuizSession, answerCurrentQuestion, countCorrect, toQuizAttempt, addQuizAttempt, scorePercent, scoreByCategory, totalTimeMs,
+  loadPassThreshold, savePassThreshold, remainingTime, expireSession, canPause, pauseSession, resumeSession,
+  createAdaptiveSession, startingDifficulty, nextDifficulty, appendAdaptiveBatch, awaitingQuestions, ADAPTIVE_BATCH_SIZE, ADAPTIVE_QUESTION_COUNT
+} from './services/quizSession';
+import {
+  getActiveProfile, getActiveTrack, getCompletedSteps, updateActiveProfile, updateProfileFor, setProfileResume,
+  setProfileResumeStatus, selectRoleTrack, completeProfileStep, resetProfile, createProfile, removeProfile, removeTrack, updateTrackArtifactsFor, updateProfileStories, recordedSessionIds, mergeWorkspaces, createId, DEFAULT_PROFILE_NAME
+} from './services/workspace';
+import { loadWorkspace, saveWorkspace, exportWorkspace, parseWorkspaceExport, WorkspaceExport, WorkspaceImportError } from './services/storage';
+import { addMissedQuestions, dueCards, nextDueAt, reviewCard, replaceCard, removeCard, RecallQuality } from './services/reviewDeck';
+import { countBankedQuestions, loadPreferBank, savePreferBank } from './services/questionBank';
+import { gradeAnswer, describeAnswer, describeCorrectAnswer } from './services/questionGrading';
+import { runChallengeTests, CompileError } from './services/codeRunner';
+import { createCodingSession, switchLanguage, recordRun, allTestsPassed, countPassed, codeReviewScore, CODE_REVIEW_CRITERIA } from './services/codingSession';
+import {
+  DESIGN_SECTIONS, NODE_WIDTH, NODE_HEIGHT, createDesignSession, addNode, updateNode, removeNode, addEdge, removeEdge, edgeEndpoints, designScore, isSeniorRole
+} from './services/systemDesign';
+import {
+  STAR_CRITERIA, MIN_ANSWER_WORDS, MAX_ANSWER_WORDS, lengthVerdict, createBehavioralPractice, setPracticeAnswer, setPracticeFeedback,
+  setPracticeStory, starScore, saveStory, removeStory, rankStoriesFor
+} from './services/starCoach';
+import { INTERVIEW_CRITERIA, interviewScore } from './services/interviewScorecard';
+import { countWords } from './services/rubric';
+import { SPEAKER_LABELS, TimelineItem, formatElapsed, hasCandidateSpeech, searchTurns, transcriptTimeline, transcriptToText } from './services/transcript';
+import {
+  INTERVIEW_TYPES, STRICTNESS_LEVELS, INTERVIEWER_VOICES, INTERVIEW_LANGUAGES, interviewTypeLabel, loadInterviewerSettings, saveInterviewerSettings
+} from './services/interviewPersona';
+import { buildInterviewContext } from './services/interviewContext';
+import { isRecordingSupported, saveRecording, loadRecording, deleteRecording, turnOffsetSeconds, turnAtTime, formatMegabytes } from './services/interviewRecording';
 import { useLiveInterview } from './hooks/useLiveInterview';
-import { Upload, FileText, CheckCircle, BookOpen, Briefcase, Mic, ChevronRight, Play, Search, Award, Brain, Target, Camera, Hexagon, Save, Trash2, Settings, X, Key } from 'lucide-react';
+import { useClock } from './hooks/useClock';
+import { useDictation } from './hooks/useDictation';
+import { Upload, FileText, CheckCircle, BookOpen, Briefcase, Mic, ChevronRight, Play, Search, Award, Brain, Target, Camera, Hexagon, Save, Trash2, Settings, X, Key, AlertTriangle, RefreshCw, Pencil, Plus, ArrowUp, ArrowDown, ClipboardList, UserPlus, Download, FileUp, Timer, Pause, Repeat, Code, Network, ArrowRight, MessageSquare } from 'lucide-react';
 
 // --- Context ---
+type SaveState = { status: 'idle' | 'saving' | 'saved' | 'error'; savedAt?: number };
+type ImportMode = 'merge' | 'replace';
+
 interface AppContextType {
   resume: ParsedResume | null;
   setResume: (r: ParsedResume) => void;
+  // Changes part of the saved resume, keeping edits made while a request was in flight
+  updateResume: (update: (r: ParsedResume) => ParsedResume) => void;
+  resumeStatus: ServiceStatus | null;
+  setResumeStatus: (s: ServiceStatus | null) => void;
   targetRole: SuggestedRole | null;
-  setTargetRole: (r: SuggestedRole) => void;
+  // Steps completed by choosing the role are recorded on its track in the same update
+  setTargetRole: (r: SuggestedRole, steps?: AppStep[]) => void;
   completedSteps: AppStep[];
   completeStep: (step: AppStep) => void;
+  trackArtifacts: TrackArtifacts;
+  // Bound to the profile and track active when the caller rendered, so results that arrive after a switch stay put
+  updateTrackArtifacts: (update: (a: TrackArtifacts) => TrackArtifacts) => void;
+  storyBank: BehavioralStory[];
+  updateStoryBank: (update: (stories: BehavioralStory[]) => BehavioralStory[]) => void;
   saveProgress: () => void;
+  saveState: SaveState;
   resetProgress: () => void;
   toggleSettings: () => void;
+  workspace: Workspace | null;
+  activeProfile: CandidateProfile | null;
+  createNewProfile: (name: string) => void;
+  switchProfile: (profileId: string) => void;
+  renameProfile: (profileId: string, name: string) => void;
+  deleteProfile: (profileId: string) => void;
+  switchTrack: (trackId: string) => void;
+  deleteTrack: (trackId: string) => void;
+  importWorkspace: (incoming: Workspace, mode: ImportMode) => void;
 }
 
 const AppContext = createContext<AppContextType>({
   resume: null,
   setResume: () => {},
+  updateResume: () => {},
+  resumeStatus: null,
+  setResumeStatus: () => {},
   targetRole: null,
   setTargetRole: () => {},
   completedSteps: [],
   completeStep: () => {},
+  trackArtifacts: {},
+  updateTrackArtifacts: () => {},
+  storyBank: [],
+  updateStoryBank: () => {},
   saveProgress: () => {},
+  saveState: { status: 'idle' },
   resetProgress: () => {},
   toggleSettings: () => {},
+  workspace: null,
+  activeProfile: null,
+  createNewProfile: () => {},
+  switchProfile: () => {},
+  renameProfile: () => {},
+  deleteProfile: () => {},
+  switchTrack: () => {},
+  deleteTrack: () => {},
+  importWorkspace: () => {},
 });
 
 const useApp = () => useContext(AppContext);
@@ -63,33 +138,101 @@ const Card: React.FC<{ children: ReactNode; className?: string; title?: string }
   </div>
 );
 
+// --- Data Source Banner ---
+const ERROR_LABELS: Record<ServiceErrorCategory, string> = {
+  'offline': 'Demo Mode',
+  'auth': 'API key rejected',
+  'quota': 'Quota exceeded',
+  'network': 'Network error',
+  'invalid-response': 'Invalid AI response',
+  'unsupported': 'Not supported by provider',
+  'unknown': 'AI request failed',
+};
+
+// Strips the payload from a service result so pages can keep just the status around
+const statusOf = <T,>({ data, ...status }: ServiceResult<T>): ServiceStatus => status;
+
+const DataSourceBanner: React.FC<{
+  status: ServiceStatus | null;
+  onRetry?: () => void;
+  retryLabel?: string;
+  retrying?: boolean;
+  className?: string;
+}> = ({ status, onRetry, retryLabel = 'Retry', retrying = false, className = '' }) => {
+  if (!status || status.source === 'live') return null;
+
+  // Saved results are real, just not fresh, so they get the calmer styling
+  const isCached = status.source === 'cached' || status.source === 'bank';
+  const heading = status.source === 'cached'
+    ? `Showing saved results from ${status.cachedAt ? new Date(status.cachedAt).toLocaleString() : 'an earlier session'}`
+    : status.source === 'bank'
+      ? 'Questions assembled from your saved question bank'
+      : status.source === 'local'
+        ? 'Showing a basic offline analysis of your document'
+        : 'Showing demo data, not your personal results';
+
+  return (
+    <div className={`flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-xl border ${isCached ? 'bg-blue-50 border-blue-200' : 'bg-amber-50 border-amber-200'} ${className}`}>
+      <AlertTriangle className={`w-5 h-5 flex-shrink-0 ${isCached ? 'text-blue-500' : 'text-amber-500'}`} />
+      <div className="flex-1 text-sm">
+        <p className={`font-bold ${isCached ? 'text-blue-800' : 'text-amber-800'}`}>
+          {heading}
+          {status.error && <span className="ml-2 px-2 py-0.5 rounded-full bg-white/70 text-[10px] uppercase tracking-wide">{ERROR_LABELS[status.error.category]}</span>}
+        </p>
+        {status.error && <p className={`mt-1 ${isCached ? 'text-blue-700' : 'text-amber-700'}`}>{status.error.message}</p>}
+      </div>
+      {onRetry && (
+        <Button variant="secondary" onClick={onRetry} disabled={retrying} className="text-sm py-1.5">
+          <RefreshCw className={`w-4 h-4 ${retrying ? 'animate-spin' : ''}`} /> {retrying ? 'Retrying...' : retryLabel}
+        </Button>
+      )}
+    </div>
+  );
+};
+
 // --- Settings Modal ---
 const SettingsModal = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
-  const [key, setKey] = useState('');
+  const [settings, setSettings] = useState<AIProviderSettings>(loadProviderSettings);
+  const [passThreshold, setPassThreshold] = useState(loadPassThreshold);
+  const [preferBank, setPreferBank] = useState(loadPreferBank);
+  const [bankSize, setBankSize] = useState<number | null>(null);
   
   useEffect(() => {
     if (isOpen) {
-      const saved = localStorage.getItem('gemini_api_key');
-      if (saved) setKey(saved);
+      setSettings(loadProviderSettings());
+      setPassThreshold(loadPassThreshold());
+      setPreferBank(loadPreferBank());
+      countBankedQuestions().then(setBankSize).catch(() => setBankSize(null));
     }
   }, [isOpen]);
 
+  const updateLocal = (patch: Partial<OpenAICompatibleConfig>) =>
+    setSettings(prev => ({ ...prev, openAICompatible: { ...prev.openAICompatible, ...patch } }));
+
   const handleSave = () => {
-    updateApiKey(key);
+    updateProviderSettings(settings);
+    savePassThreshold(passThreshold);
+    savePreferBank(preferBank);
     onClose();
-    // Optional: reload to ensure all services pick up fresh state if needed, 
-    // though geminiService handles dynamic updates.
-    alert("API Key saved. Live features are now enabled.");
+    // geminiService picks up the new provider immediately, no reload needed.
+    alert(settings.provider === 'gemini'
+      ? "API Key saved. Live features are now enabled."
+      : `Local model server saved. Requests will go to ${settings.openAICompatible.baseUrl}.`);
   };
 
   const handleClear = () => {
     updateApiKey('');
-    setKey('');
-    alert("API Key cleared. Reverting to Demo Mode.");
+    const next = loadProviderSettings();
+    setSettings(next);
+    alert(next.provider === 'gemini'
+      ? "API Key cleared. Reverting to Demo Mode."
+      : "Gemini API Key cleared. Your local model server is still selected.");
   };
 
   if (!isOpen) return null;
 
+  const inputClass = "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none";
+
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in">
@@ -99,20 +242,96 @@ const SettingsModal = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => vo
         </div>
         <div className="p-6 space-y-4">
            <div>
-             <label className="block text-sm font-medium text-gray-700 mb-1">Gemini API Key</label>
-             <div className="relative">
-               <input 
-                 type="password" 
-                 value={key}
-                 onChange={(e) => setKey(e.target.value)}
-                 className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none"
-                 placeholder="Enter your API Key"
-               />
-               <Key className="w-5 h-5 text-gray-400 absolute left-3 top-2.5" />
+             <label className="block text-sm font-medium text-gray-700 mb-1">AI Provider</label>
+             <div className="grid grid-cols-2 gap-2">
+               {([['gemini', 'Google Gemini'], ['openai-compatible', 'Local / OpenAI-compatible']] as [AIProviderId, string][]).map(([id, label]) => (
+                 <button
+                   key={id}
+                   onClick={() => setSettings(prev => ({ ...prev, provider: id }))}
+                   className={`p-2 rounded-lg border text-sm font-medium transition-all ${settings.provider === id ? 'border-purple-500 bg-purple-50 text-purple-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                 >
+                   {label}
+                 </button>
+               ))}
+             </div>
+           </div>
+
+           {settings.provider === 'gemini' ? (
+             <div>
+               <label className="block text-sm font-medium text-gray-700 mb-1">Gemini API Key</label>
+               <div className="relative">
+                 <input 
+                   type="password" 
+                   value={settings.geminiApiKey}
+                   onChange={(e) => setSettings(prev => ({ ...prev, geminiApiKey: e.target.value }))}
+                   className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none"
+                   placeholder="Enter your API Key"
+                 />
+                 <Key className="w-5 h-5 text-gray-400 absolute left-3 top-2.5" />
+               </div>
+               <p className="text-xs text-gray-500 mt-2">
+                 Leave empty to use <strong>Demo Mode</strong> (Mock Data). <br/>
+                 Get a free key at <a href="https://aistudio.google.com/app/apikey" target="_blank" className="text-purple-600 hover:underline">aistudio.google.com</a>.
+               </p>
+             </div>
+           ) : (
+             <div className="space-y-3">
+               <div>
+                 <label className="block text-sm font-medium text-gray-700 mb-1">Server Base URL</label>
+                 <input
+                   value={settings.openAICompatible.baseUrl}
+                   onChange={(e) => updateLocal({ baseUrl: e.target.value })}
+                   className={inputClass}
+                   placeholder={DEFAULT_OPENAI_COMPATIBLE.baseUrl}
+                 />
+               </div>
+               <div>
+                 <label className="block text-sm font-medium text-gray-700 mb-1">Model</label>
+                 <input
+                   value={settings.openAICompatible.model}
+                   onChange={(e) => updateLocal({ model: e.target.value })}
+                   className={inputClass}
+                   placeholder={DEFAULT_OPENAI_COMPATIBLE.model}
+                 />
+               </div>
+               <div>
+                 <label className="block text-sm font-medium text-gray-700 mb-1">API Key (optional)</label>
+                 <input
+                   type="password"
+                   value={settings.openAICompatible.apiKey}
+                   onChange={(e) => updateLocal({ apiKey: e.target.value })}
+                   className={inputClass}
+                   placeholder="Not needed for Ollama / llama.cpp"
+                 />
+               </div>
+               <p className="text-xs text-gray-500">
+                 Works with any server exposing <code>/v1/chat/completions</code> (Ollama, llama.cpp, LM Studio). 
+                 Job search and the live video interview still require a Gemini key.
+               </p>
              </div>
-             <p className="text-xs text-gray-500 mt-2">
-               Leave empty to use <strong>Demo Mode</strong> (Mock Data). <br/>
-               Get a free key at <a href="https://aistudio.google.com/app/apikey" target="_blank" className="text-purple-600 hover:underline">aistudio.google.com</a>.
+           )}
+
+           <div className="pt-4 border-t border-gray-100">
+             <label className="block text-sm font-medium text-gray-700 mb-1">Mock Test Pass Mark (%)</label>
+             <input
+               type="number"
+               min={0}
+               max={100}
+               value={passThreshold}
+               onChange={(e) => setPassThreshold(Number(e.target.value))}
+               className={inputClass}
+             />
+             <p className="text-xs text-gray-500 mt-2">The interview is only recommended once a mock test reaches this score.</p>
+           </div>
+
+           <div>
+             <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+               <input type="checkbox" checked={preferBank} onChange={(e) => setPreferBank(e.target.checked)} className="accent-purple-600" />
+               Build quizzes from my question bank first
+             </label>
+             <p className="text-xs text-gray-500 mt-1">
+               Saves API quota by reusing previously generated questions; the AI is only asked when the bank runs short.
+               {bankSize !== null && ` ${bankSize} question${bankSize === 1 ? '' : 's'} saved so far.`}
              </p>
            </div>
         </div>
@@ -125,17 +344,164 @@ const SettingsModal = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => vo
   );
 };
 
+// --- Workspace Import ---
+const ImportWorkspaceModal = ({ file, onClose }: { file: WorkspaceExport | null; onClose: () => void }) => {
+  const { workspace, importWorkspace } = useApp();
+  if (!file || !workspace) return null;
+
+  const incoming = file.workspace.profiles;
+  const overlapping = incoming.filter(p => workspace.profiles.some(existing => existing.id === p.id)).length;
+
+  const handleImport = (mode: ImportMode) => {
+    if (mode === 'replace' && !window.confirm("Replace all local profiles with the imported ones? Local progress will be lost.")) return;
+    importWorkspace(file.workspace, mode);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+           <h3 className="font-bold text-gray-800 flex items-center gap-2"><FileUp className="w-5 h-5"/> Import Workspace</h3>
+           <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5"/></button>
+        </div>
+        <div className="p-6 space-y-4 text-sm text-gray-600">
+          <p>Exported {new Date(file.savedAt).toLocaleString()} with {incoming.length} profile{incoming.length === 1 ? '' : 's'}:</p>
+          <ul className="space-y-1">
+            {incoming.map(p => (
+              <li key={p.id} className="flex justify-between bg-gray-50 px-3 py-2 rounded-lg border border-gray-100">
+                <span className="font-medium text-gray-800">{p.name}</span>
+                <span className="text-xs text-gray-400">{p.tracks.length} role{p.tracks.length === 1 ? '' : 's'}</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-500">
+            <strong>Merge</strong> adds these profiles to yours{overlapping > 0 && `; ${overlapping} already exist here and are only overwritten where the file is newer`}.
+            {' '}<strong>Replace</strong> discards all local profiles.
+          </p>
+        </div>
+        <div className="p-4 border-t border-gray-100 flex justify-end gap-3 bg-gray-50">
+           <Button variant="danger" onClick={() => handleImport('replace')}>Replace</Button>
+           <Button variant="primary" onClick={() => handleImport('merge')}>Merge</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Profile & Track Switcher ---
+const TRACK_STEPS = [AppStep.TECHNICAL_PREP, AppStep.TECHNICAL_QUIZ, AppStep.APTITUDE_JOBS, AppStep.FULL_MOCK, AppStep.HR_INTERVIEW];
+
+const ProfileSwitcher = () => {
+  const { workspace, activeProfile, createNewProfile, switchProfile, renameProfile, deleteProfile, switchTrack, deleteTrack } = useApp();
+  if (!workspace || !activeProfile) return null;
+
+  const handleNew = () => {
+    const name = window.prompt("Name for the new profile (e.g. the candidate's name):", DEFAULT_PROFILE_NAME);
+    if (name?.trim()) createNewProfile(name.trim());
+  };
+
+  const handleRename = () => {
+    const name = window.prompt("Rename profile:", activeProfile.name);
+    if (name?.trim()) renameProfile(activeProfile.id, name.trim());
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete the profile "${activeProfile.name}" and all of its role tracks? This cannot be undone.`)) {
+      deleteProfile(activeProfile.id);
+    }
+  };
+
+  return (
+    <div className="hidden lg:block p-4 border-b border-white/10 space-y-3">
+      <p className="text-xs font-bold text-purple-200 uppercase tracking-wider px-2 opacity-80">Profile</p>
+      <div className="flex items-center gap-2">
+        <select
+          value={activeProfile.id}
+          onChange={(e) => switchProfile(e.target.value)}
+          className="flex-1 min-w-0 bg-white/10 text-white text-sm font-medium rounded-lg px-2 py-2 border border-white/20 outline-none focus:border-white/50"
+        >
+          {workspace.profiles.map(p => <option key={p.id} value={p.id} className="text-gray-800">{p.name}</option>)}
+        </select>
+        <button onClick={handleNew} title="New profile" className="p-2 rounded-lg text-purple-100 hover:bg-white/20 hover:text-white transition-all">
+          <UserPlus className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex gap-4 px-2 text-xs text-purple-200">
+        <button onClick={handleRename} className="hover:text-white transition-colors">Rename</button>
+        <button onClick={handleDelete} className="hover:text-red-200 transition-colors">Delete</button>
+      </div>
+
+      {activeProfile.tracks.length > 0 && (
+        <div className="space-y-1 pt-1">
+          <p className="text-xs font-bold text-purple-200 uppercase tracking-wider px-2 opacity-80 mb-1">Role Tracks</p>
+          {activeProfile.tracks.map(track => {
+            const isActive = track.id === activeProfile.activeTrackId;
+            const done = TRACK_STEPS.filter(step => track.completedSteps.includes(step)).length;
+            return (
+              <div
+                key={track.id}
+                className={`group flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm transition-all ${isActive ? 'bg-white/20 text-white font-semibold' : 'text-purple-100 hover:bg-white/10'}`}
+              >
+                <button onClick={() => switchTrack(track.id)} className="flex-1 min-w-0 text-left truncate" title={track.role.title}>
+                  {track.role.title}
+                </button>
+                <span className="text-[10px] text-purple-200">{done}/{TRACK_STEPS.length}</span>
+                <button
+                  onClick={() => window.confirm(`Remove the "${track.role.title}" track and its progress?`) && deleteTrack(track.id)}
+                  title="Remove track"
+                  className="opacity-0 group-hover:opacity-100 text-purple-200 hover:text-red-200 transition-opacity"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // --- Sidebar Journey Map ---
 const Sidebar = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { completedSteps, resume, targetRole, saveProgress, resetProgress, toggleSettings } = useApp();
+  const { completedSteps, resume, targetRole, saveProgress, saveState, resetProgress, toggleSettings, workspace, trackArtifacts } = useApp();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<WorkspaceExport | null>(null);
+
+  const handleExport = () => {
+    if (!workspace) return;
+    const url = URL.createObjectURL(new Blob([exportWorkspace(workspace)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `prepai-workspace-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPendingImport(parseWorkspaceExport(await file.text()));
+    } catch (err) {
+      alert(err instanceof WorkspaceImportError ? err.message : "Could not read the selected file.");
+    }
+  };
 
   const menu = [
     { step: AppStep.UPLOAD, path: '/', label: '1. Upload Document', icon: Upload },
     { step: AppStep.ANALYSIS, path: '/analysis', label: '2. Analysis & Roles', icon: Target, disabled: !resume },
+    { step: AppStep.JOB_MATCH, path: '/job-match', label: '2b. Match a Job Posting', icon: ClipboardList, disabled: !resume },
     { step: AppStep.TECHNICAL_PREP, path: '/technical-prep', label: '3. Skill Prep', icon: BookOpen, disabled: !targetRole },
     { step: AppStep.TECHNICAL_QUIZ, path: '/technical-quiz', label: '4. Tech Quiz', icon: FileText, disabled: !completedSteps.includes(AppStep.TECHNICAL_PREP) && !targetRole },
+    { step: AppStep.DAILY_REVIEW, path: '/review', label: '4b. Daily Review', icon: Repeat, disabled: !targetRole, badge: dueCards(trackArtifacts.reviewDeck).length },
+    { step: AppStep.CODING_CHALLENGE, path: '/coding', label: '4c. Coding Challenge', icon: Code, disabled: !targetRole },
+    { step: AppStep.SYSTEM_DESIGN, path: '/system-design', label: '4d. System Design', icon: Network, disabled: !targetRole },
+    { step: AppStep.BEHAVIORAL, path: '/behavioral', label: '4e. Behavioral Coach', icon: MessageSquare, disabled: !targetRole },
     { step: AppStep.APTITUDE_JOBS, path: '/aptitude', label: '5. Aptitude & Jobs', icon: Brain, disabled: !completedSteps.includes(AppStep.TECHNICAL_QUIZ) },
     { step: AppStep.FULL_MOCK, path: '/full-mock', label: '6. Full Mock Test', icon: CheckCircle, disabled: !completedSteps.includes(AppStep.APTITUDE_JOBS) },
     { step: AppStep.HR_INTERVIEW, path: '/interview', label: '7. AI Interview', icon: Mic, disabled: !completedSteps.includes(AppStep.FULL_MOCK) },
@@ -152,6 +518,8 @@ const Sidebar = () => {
           <span className="text-xs text-purple-200 tracking-wider font-medium">SPHERE PREP</span>
         </div>
       </div>
+
+      <ProfileSwitcher />
       
       <div className="p-4 flex-1">
         <p className="hidden lg:block text-xs font-bold text-purple-200 uppercase tracking-wider mb-3 px-2 opacity-80">Your Roadmap</p>
@@ -177,6 +545,7 @@ const Sidebar = () => {
                 <div className="hidden lg:block flex-1">
                   <span className="text-sm">{item.label}</span>
                 </div>
+                {!!item.badge && <span className={`hidden lg:inline text-[10px] font-bold px-2 py-0.5 rounded-full ${isActive ? 'bg-purple-100 text-purple-700' : 'bg-white/20 text-white'}`}>{item.badge}</span>}
                 {isCompleted && <CheckCircle className={`w-4 h-4 hidden lg:block ${isActive ? 'text-emerald-500' : 'text-emerald-300'}`} />}
               </button>
             );
@@ -193,6 +562,25 @@ const Sidebar = () => {
           <Settings className="w-4 h-4" />
           <span className="hidden lg:inline text-sm font-medium">Settings</span>
         </button>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExport}
+            title="Download all profiles and progress as a file"
+            className="flex-1 flex items-center gap-3 p-2 rounded-lg text-purple-100 hover:bg-white/20 hover:text-white transition-all"
+          >
+            <Download className="w-4 h-4" />
+            <span className="hidden lg:inline text-sm font-medium">Export</span>
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            title="Load profiles and progress from an exported file"
+            className="flex-1 flex items-center gap-3 p-2 rounded-lg text-purple-100 hover:bg-white/20 hover:text-white transition-all"
+          >
+            <FileUp className="w-4 h-4" />
+            <span className="hidden lg:inline text-sm font-medium">Import</span>
+          </button>
+          <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+        </div>
         {resume && (
           <>
             <button 
@@ -200,18 +588,23 @@ const Sidebar = () => {
               className="w-full flex items-center gap-3 p-2 rounded-lg text-purple-100 hover:bg-white/20 hover:text-white transition-all"
             >
               <Save className="w-4 h-4" />
-              <span className="hidden lg:inline text-sm font-medium">Save Progress</span>
+              <span className="hidden lg:inline text-sm font-medium">Save Now</span>
+              <span className={`hidden lg:inline ml-auto text-[10px] ${saveState.status === 'error' ? 'text-red-200' : 'text-purple-200'}`}>
+                {saveState.status === 'saving' && 'Saving...'}
+                {saveState.status === 'saved' && saveState.savedAt && `Saved ${new Date(saveState.savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                {saveState.status === 'error' && 'Save failed'}
+              </span>
             </button>
              <button 
               onClick={() => {
-                if(window.confirm("Are you sure you want to reset your progress? This cannot be undone.")) {
+                if(window.confirm("Are you sure you want to reset this profile's progress? This cannot be undone.")) {
                   resetProgress();
                 }
               }}
               className="w-full flex items-center gap-3 p-2 rounded-lg text-purple-200 hover:bg-red-500/20 hover:text-red-200 transition-all"
             >
               <Trash2 className="w-4 h-4" />
-              <span className="hidden lg:inline text-sm font-medium">Reset All</span>
+              <span className="hidden lg:inline text-sm font-medium">Reset Profile</span>
             </button>
           </>
         )}
@@ -223,47 +616,114 @@ const Sidebar = () => {
           <p className="text-sm font-bold text-white truncate">{targetRole.title}</p>
         </div>
       )}
+
+      <ImportWorkspaceModal file={pendingImport} onClose={() => setPendingImport(null)} />
     </div>
   );
 };
 
 // --- Pages ---
 
+type ResumeInput = { kind: 'text'; text: string } | { kind: 'file'; data: string; mimeType: string };
+
 const ResumeUploadPage = () => {
-  const { setResume, completeStep, resume } = useApp();
+  const { setResume, resumeStatus, setResumeStatus, completeStep, resume } = useApp();
   const navigate = useNavigate();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Extracted text awaiting the user's review before it is sent
+  const [draft, setDraft] = useState<{ fileName: string; text: string } | null>(null);
+  // Last analyzed input, kept so a fallback result can be retried without re-picking the file
+  const [lastInput, setLastInput] = useState<ResumeInput | null>(null);
+
+  const analyze = async (input: ResumeInput) => {
+    setIsAnalyzing(true);
+    setError(null);
+    setLastInput(input);
+    const result = input.kind === 'text'
+      ? await parseResumeText(input.text)
+      : await parseResumeDocument(input.data, input.mimeType);
+    setResume(result.data);
+    setResumeStatus(statusOf(result));
+    completeStep(AppStep.UPLOAD);
+    setDraft(null);
+    setIsAnalyzing(false);
+    // Stay here on fallback data so the user sees why and can retry
+    if (result.source === 'live') navigate('/analysis');
+  };
+
+  const readAsBase64 = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-selecting the same file
     if (!file) return;
 
     setIsAnalyzing(true);
     setError(null);
 
     try {
-      const reader = new FileReader();
-      reader.onloadend = async () => {
-        const base64String = (reader.result as string).split(',')[1];
-        const data = await parseResumeDocument(base64String, file.type);
-        setResume(data);
-        completeStep(AppStep.UPLOAD);
+      const extracted = await extractDocumentText(file);
+      if (extracted.text) {
+        setDraft({ fileName: extracted.fileName, text: extracted.text });
         setIsAnalyzing(false);
-        navigate('/analysis');
-      };
-      reader.readAsDataURL(file);
-    } catch (err) {
+        return;
+      }
+      if (extracted.kind === 'docx' || extracted.kind === 'text') {
+        throw new Error("This document appears to be empty.");
+      }
+      // Images and scanned PDFs have no text layer - let the model read the file itself
+      await analyze({ kind: 'file', data: await readAsBase64(file), mimeType: file.type || 'application/pdf' });
+    } catch (err: any) {
       console.error(err);
-      setError("Failed to analyze document. Please try a valid PDF, PNG, or JPG file.");
+      setError(err?.message || "Failed to analyze document. Please try a valid PDF, DOCX, TXT, PNG, or JPG file.");
       setIsAnalyzing(false);
     }
   };
 
+  if (draft) {
+    return (
+      <div className="max-w-3xl mx-auto space-y-6 pt-10 animate-fade-in">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-extrabold text-gray-900">Review Extracted Text</h1>
+          <p className="text-gray-500">We read <span className="font-semibold text-gray-700">{draft.fileName}</span> in your browser. Fix anything that looks wrong before analysis.</p>
+        </div>
+        <Card>
+          <textarea
+            value={draft.text}
+            onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+            rows={18}
+            className="w-full p-4 border border-gray-200 rounded-lg font-mono text-sm text-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none resize-y"
+          />
+          <div className="flex justify-between items-center mt-4">
+            <span className="text-xs text-gray-400">{countWords(draft.text)} words</span>
+            <div className="flex gap-3">
+              <Button variant="secondary" onClick={() => setDraft(null)} disabled={isAnalyzing}>Cancel</Button>
+              <Button onClick={() => analyze({ kind: 'text', text: draft.text })} disabled={isAnalyzing || !draft.text.trim()}>
+                {isAnalyzing ? 'Analyzing...' : 'Analyze Text'} <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </Card>
+        {error && <p className="text-red-500 font-medium bg-red-50 py-2 rounded text-center">{error}</p>}
+      </div>
+    );
+  }
+
   if (resume && !isAnalyzing) {
     return (
       <div className="max-w-3xl mx-auto space-y-8 text-center pt-10 animate-fade-in">
          <h1 className="text-4xl font-extrabold text-gray-900">Welcome Back!</h1>
+         <DataSourceBanner
+           status={resumeStatus}
+           onRetry={lastInput ? () => analyze(lastInput) : undefined}
+           className="text-left"
+         />
          <Card className="py-10">
             <div className="flex flex-col items-center gap-4">
               <div className="w-20 h-20 bg-purple-100 rounded-full flex items-center justify-center">
@@ -284,11 +744,12 @@ const ResumeUploadPage = () => {
                      <input 
                        type="file" 
                        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" 
-                       accept="image/png, image/jpeg, application/pdf" 
+                       accept={SUPPORTED_DOCUMENT_TYPES} 
                        onChange={handleFileUpload} 
                      />
                   </label>
               </div>
+              {error && <p className="text-red-500 font-medium bg-red-50 py-2 px-4 rounded">{error}</p>}
             </div>
          </Card>
       </div>
@@ -305,7 +766,7 @@ const ResumeUploadPage = () => {
       <Card className="border-dashed border-2 border-purple-200 bg-purple-50/50 py-20 hover:border-purple-500 transition-all cursor-pointer relative group">
         <input 
           type="file" 
-          accept="image/png, image/jpeg, application/pdf" 
+          accept={SUPPORTED_DOCUMENT_TYPES} 
           onChange={handleFileUpload} 
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
         />
@@ -315,7 +776,7 @@ const ResumeUploadPage = () => {
           </div>
           <div className="space-y-1">
             <p className="text-xl font-bold text-gray-800">Drop your Resume or Offer Letter</p>
-            <p className="text-sm text-gray-500">PDF, PNG, JPG supported</p>
+            <p className="text-sm text-gray-500">PDF, DOCX, TXT, Markdown, PNG, JPG supported</p>
           </div>
         </div>
       </Card>
@@ -331,42 +792,178 @@ const ResumeUploadPage = () => {
   );
 };
 
+const ResumeEditor: React.FC<{
+  resume: ParsedResume;
+  onSave: (r: ParsedResume) => void;
+  onCancel: () => void;
+}> = ({ resume, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ParsedResume>(resume);
+  const [newSkill, setNewSkill] = useState('');
+
+  const inputClass = "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none";
+
+  // Accepts comma separated input and ignores case-insensitive duplicates
+  const addSkills = () => {
+    const existing = new Set(draft.skills.map(s => s.toLowerCase()));
+    const added = newSkill.split(',').map(s => s.trim()).filter(s => s && !existing.has(s.toLowerCase()));
+    if (added.length) setDraft({ ...draft, skills: [...draft.skills, ...Array.from(new Set(added))] });
+    setNewSkill('');
+  };
+
+  const moveSkill = (idx: number, delta: number) => {
+    const target = idx + delta;
+    if (target < 0 || target >= draft.skills.length) return;
+    const skills = [...draft.skills];
+    [skills[idx], skills[target]] = [skills[target], skills[idx]];
+    setDraft({ ...draft, skills });
+  };
+
+  const removeSkill = (idx: number) => setDraft({ ...draft, skills: draft.skills.filter((_, i) => i !== idx) });
+
+  return (
+    <Card title="Edit Profile">
+      <div className="space-y-5">
+        <div className="grid md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Full Name</label>
+            <input value={draft.fullName} onChange={(e) => setDraft({ ...draft, fullName: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Years of Experience</label>
+            <input
+              type="number"
+              min={0}
+              max={60}
+              step={0.5}
+              value={draft.yearsOfExperience}
+              onChange={(e) => setDraft({ ...draft, yearsOfExperience: Math.max(0, Number(e.target.value) || 0) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Summary</label>
+          <textarea value={draft.summary} onChange={(e) => setDraft({ ...draft, summary: e.target.value })} rows={3} className={`${inputClass} resize-y`} />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Skills <span className="text-gray-400 font-normal">(most important first)</span></label>
+          <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+            {draft.skills.map((skill, idx) => (
+              <div key={`${skill}-${idx}`} className="flex items-center gap-2 px-3 py-2 bg-purple-50 border border-purple-100 rounded-lg">
+                <span className="flex-1 text-sm font-medium text-purple-700">{skill}</span>
+                <button onClick={() => moveSkill(idx, -1)} disabled={idx === 0} className="text-purple-400 hover:text-purple-700 disabled:opacity-30" title="Move up"><ArrowUp className="w-4 h-4" /></button>
+                <button onClick={() => moveSkill(idx, 1)} disabled={idx === draft.skills.length - 1} className="text-purple-400 hover:text-purple-700 disabled:opacity-30" title="Move down"><ArrowDown className="w-4 h-4" /></button>
+                <button onClick={() => removeSkill(idx)} className="text-gray-400 hover:text-red-500" title="Remove"><X className="w-4 h-4" /></button>
+              </div>
+            ))}
+            {draft.skills.length === 0 && <p className="text-sm text-gray-400 italic">No skills yet.</p>}
+          </div>
+          <div className="flex gap-2 mt-3">
+            <input
+              value={newSkill}
+              onChange={(e) => setNewSkill(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') addSkills(); }}
+              className={inputClass}
+              placeholder="Add skills, e.g. Kubernetes, GraphQL"
+            />
+            <Button variant="secondary" onClick={addSkills} disabled={!newSkill.trim()}><Plus className="w-4 h-4" /> Add</Button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-100">
+          <Button variant="secondary" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onSave({ ...draft, fullName: draft.fullName.trim(), summary: draft.summary.trim() })}>Save Profile</Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
 const AnalysisPage = () => {
-  const { resume, setTargetRole, completeStep } = useApp();
+  const { resume, setResume, updateResume, resumeStatus, setTargetRole } = useApp();
   const navigate = useNavigate();
+  const [isEditing, setIsEditing] = useState(false);
+  const [rolesStale, setRolesStale] = useState(false);
+  const [rolesStatus, setRolesStatus] = useState<ServiceStatus | null>(null);
+  const [regenerating, setRegenerating] = useState(false);
 
   if (!resume) return <div>No document loaded.</div>;
 
+  const handleSaveProfile = (updated: ParsedResume) => {
+    // Role suggestions depend on skills and seniority, so flag them for regeneration
+    const skillsChanged = updated.skills.join('|') !== resume.skills.join('|');
+    if (skillsChanged || updated.yearsOfExperience !== resume.yearsOfExperience) setRolesStale(true);
+    setResume(updated);
+    setIsEditing(false);
+  };
+
+  const handleRegenerateRoles = async () => {
+    setRegenerating(true);
+    const { suggestedRoles, ...profile } = resume;
+    const result = await generateSuggestedRoles(profile);
+    updateResume(r => ({ ...r, suggestedRoles: result.data }));
+    setRolesStatus(statusOf(result));
+    setRolesStale(false);
+    setRegenerating(false);
+  };
+
   const handleSelectRole = (role: SuggestedRole) => {
-    setTargetRole(role);
-    completeStep(AppStep.ANALYSIS);
-    completeStep(AppStep.ROLE_SELECTION);
+    setTargetRole(role, [AppStep.ANALYSIS, AppStep.ROLE_SELECTION]);
     navigate('/technical-prep');
   };
 
   return (
     <div className="space-y-8 max-w-5xl mx-auto">
-      <div className="flex justify-between items-start">
-        <div>
-          <h1 className="text-3xl font-extrabold text-gray-900 mb-2">Welcome, {resume.fullName || 'Candidate'}</h1>
-          <p className="text-gray-600">{resume.summary}</p>
-        </div>
-        <div className="bg-white px-5 py-3 rounded-xl border border-gray-100 shadow-sm">
-           <span className="text-gray-400 text-xs uppercase font-bold tracking-wider">Experience</span>
-           <div className="text-2xl font-bold text-purple-600">{resume.yearsOfExperience} Years</div>
-        </div>
-      </div>
+      <DataSourceBanner status={resumeStatus} onRetry={() => navigate('/')} retryLabel="Upload Again" />
+      {isEditing ? (
+        <ResumeEditor resume={resume} onSave={handleSaveProfile} onCancel={() => setIsEditing(false)} />
+      ) : (
+        <>
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <h1 className="text-3xl font-extrabold text-gray-900 mb-2">Welcome, {resume.fullName || 'Candidate'}</h1>
+              <p className="text-gray-600">{resume.summary}</p>
+            </div>
+            <div className="flex items-start gap-3">
+              <div className="bg-white px-5 py-3 rounded-xl border border-gray-100 shadow-sm">
+                 <span className="text-gray-400 text-xs uppercase font-bold tracking-wider">Experience</span>
+                 <div className="text-2xl font-bold text-purple-600 whitespace-nowrap">{resume.yearsOfExperience} Years</div>
+              </div>
+              <Button variant="secondary" onClick={() => setIsEditing(true)}><Pencil className="w-4 h-4" /> Edit</Button>
+            </div>
+          </div>
 
-      <Card title="Key Skills Detected">
-        <div className="flex flex-wrap gap-2">
-          {resume.skills.map((skill, idx) => (
-            <span key={idx} className="px-3 py-1.5 bg-purple-50 text-purple-700 border border-purple-100 rounded-lg text-sm font-medium">{skill}</span>
-          ))}
-        </div>
-      </Card>
+          <Card title="Key Skills Detected">
+            <div className="flex flex-wrap gap-2">
+              {resume.skills.map((skill, idx) => (
+                <span key={idx} className="px-3 py-1.5 bg-purple-50 text-purple-700 border border-purple-100 rounded-lg text-sm font-medium">{skill}</span>
+              ))}
+            </div>
+          </Card>
+        </>
+      )}
 
       <div>
-        <h2 className="text-2xl font-bold text-gray-900 mb-6">Recommended Career Paths</h2>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Recommended Career Paths</h2>
+          <Button variant={rolesStale ? 'primary' : 'secondary'} onClick={handleRegenerateRoles} disabled={regenerating}>
+            <RefreshCw className={`w-4 h-4 ${regenerating ? 'animate-spin' : ''}`} /> {regenerating ? 'Regenerating...' : 'Regenerate Roles'}
+          </Button>
+        </div>
+        <button
+          onClick={() => navigate('/job-match')}
+          className="w-full mb-6 p-4 rounded-xl border-2 border-dashed border-purple-200 text-purple-700 hover:border-purple-400 hover:bg-purple-50 transition-all flex items-center justify-center gap-2 font-medium"
+        >
+          <ClipboardList className="w-5 h-5" /> Have a specific posting? Match a job description against your profile
+        </button>
+        {rolesStale && (
+          <p className="text-sm text-purple-700 bg-purple-50 border border-purple-100 rounded-lg p-3 mb-6">
+            Your profile changed since these roles were suggested. Regenerate them to reflect your edits.
+          </p>
+        )}
+        <DataSourceBanner status={rolesStatus} onRetry={handleRegenerateRoles} retrying={regenerating} className="mb-6" />
         <div className="grid gap-6">
           {resume.suggestedRoles.map((role, idx) => (
             <Card key={idx} className="hover:shadow-xl transition-all relative overflow-hidden group border-l-4 border-l-purple-500">
@@ -395,11 +992,7 @@ const AnalysisPage = () => {
                   </Button>
                   <button 
                     onClick={() => {
-                        setTargetRole(role);
-                        completeStep(AppStep.ANALYSIS);
-                        completeStep(AppStep.ROLE_SELECTION);
-                        completeStep(AppStep.TECHNICAL_PREP);
-                        completeStep(AppStep.TECHNICAL_QUIZ);
+                        setTargetRole(role, [AppStep.ANALYSIS, AppStep.ROLE_SELECTION, AppStep.TECHNICAL_PREP, AppStep.TECHNICAL_QUIZ]);
                         navigate('/aptitude');
                     }}
                     className="text-xs text-gray-400 hover:text-purple-600 underline mt-1 text-center transition-colors"
@@ -416,19 +1009,142 @@ const AnalysisPage = () => {
   );
 };
 
+const MATCH_STYLES: Record<SkillMatchStatus, { label: string; chip: string; heading: string }> = {
+  matched: { label: 'Matched', chip: 'bg-emerald-50 text-emerald-700 border-emerald-200', heading: 'text-emerald-600' },
+  partial: { label: 'Partial', chip: 'bg-amber-50 text-amber-700 border-amber-200', heading: 'text-amber-600' },
+  missing: { label: 'Missing', chip: 'bg-red-50 text-red-700 border-red-200', heading: 'text-red-600' },
+};
+
+const JobMatchPage = () => {
+  const { resume, setTargetRole } = useApp();
+  const navigate = useNavigate();
+  const [jobText, setJobText] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [role, setRole] = useState<SuggestedRole | null>(null);
+  const [breakdown, setBreakdown] = useState<SkillMatch[]>([]);
+  const [roleStatus, setRoleStatus] = useState<ServiceStatus | null>(null);
+
+  if (!resume) return <div>No document loaded.</div>;
+
+  const analyzePosting = async () => {
+    setLoading(true);
+    setError(null);
+    const result = await parseJobDescription(jobText.trim());
+    const score = scoreSkillMatch(result.data.requiredSkills || [], resume.skills);
+    setRole({ ...result.data, matchScore: score.matchScore, jobDescription: jobText.trim() });
+    setBreakdown(score.breakdown);
+    setRoleStatus(statusOf(result));
+    setLoading(false);
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const extracted = await extractDocumentText(file);
+      if (!extracted.text) throw new Error("No text could be read from this file. Paste the posting instead.");
+      setJobText(extracted.text);
+    } catch (err: any) {
+      setError(err?.message || "Failed to read the file.");
+    }
+  };
+
+  const handleUseRole = () => {
+    if (!role) return;
+    setTargetRole(role, [AppStep.ANALYSIS, AppStep.ROLE_SELECTION, AppStep.JOB_MATCH]);
+    navigate('/technical-prep');
+  };
+
+  const grouped = (status: SkillMatchStatus) => breakdown.filter(m => m.status === status);
+
+  return (
+    <div className="space-y-8 max-w-5xl mx-auto">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <h1 className="text-2xl font-bold text-gray-900 mb-1">Job Description Match</h1>
+        <p className="text-gray-500 text-sm">Paste a job posting to see how {resume.fullName || 'your profile'} stacks up against its requirements.</p>
+      </div>
+
+      <Card>
+        <textarea
+          value={jobText}
+          onChange={(e) => setJobText(e.target.value)}
+          rows={10}
+          placeholder="Paste the full job description here..."
+          className="w-full p-4 border border-gray-200 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none resize-y"
+        />
+        <div className="flex flex-col sm:flex-row justify-between items-center gap-3 mt-4">
+          <label className="text-sm text-purple-600 hover:text-purple-800 cursor-pointer font-medium relative flex items-center gap-2">
+            <Upload className="w-4 h-4" /> Load from file
+            <input type="file" className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" accept={SUPPORTED_DOCUMENT_TYPES} onChange={handleFileUpload} />
+          </label>
+          <Button onClick={analyzePosting} disabled={loading || !jobText.trim()}>
+            {loading ? 'Analyzing Posting...' : 'Analyze Match'} <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+        {error && <p className="text-red-500 font-medium bg-red-50 py-2 px-3 rounded mt-4">{error}</p>}
+      </Card>
+
+      {role && (
+        <>
+          <DataSourceBanner status={roleStatus} onRetry={analyzePosting} retrying={loading} />
+          <Card className="border-l-4 border-l-purple-500">
+            <div className="flex flex-col md:flex-row justify-between gap-6">
+              <div className="flex-1">
+                <h2 className="text-2xl font-bold text-gray-900">{role.title}</h2>
+                {role.company && <p className="text-sm font-medium text-gray-500 mt-1">{role.company}</p>}
+                <p className="text-gray-600 mt-3 leading-relaxed">{role.reasoning}</p>
+              </div>
+              <div className="flex flex-col items-center justify-center gap-3 min-w-[200px]">
+                <div className="text-5xl font-black text-transparent bg-clip-text bg-gradient-to-r from-purple-600 to-pink-600">{role.matchScore}%</div>
+                <span className="text-xs text-gray-400 uppercase font-bold tracking-wider">Skill Match</span>
+                <Button onClick={handleUseRole}>Use as Target Role <ChevronRight className="w-4 h-4" /></Button>
+              </div>
+            </div>
+          </Card>
+
+          <div className="grid md:grid-cols-3 gap-6">
+            {(['matched', 'partial', 'missing'] as SkillMatchStatus[]).map(status => (
+              <Card key={status}>
+                <h3 className={`text-sm font-bold uppercase tracking-wider mb-4 ${MATCH_STYLES[status].heading}`}>
+                  {MATCH_STYLES[status].label} ({grouped(status).length})
+                </h3>
+                <div className="space-y-2">
+                  {grouped(status).map((match, i) => (
+                    <div key={i} className={`px-3 py-2 rounded-lg border text-sm ${MATCH_STYLES[status].chip}`}>
+                      <p className="font-medium">{match.skill}</p>
+                      {match.evidence && match.status === 'partial' && <p className="text-xs opacity-80 mt-0.5">Related: {match.evidence}</p>}
+                    </div>
+                  ))}
+                  {grouped(status).length === 0 && <p className="text-sm text-gray-400 italic">None</p>}
+                </div>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
 const TechnicalPrepPage = () => {
-  const { targetRole, resume, completeStep } = useApp();
+  const { targetRole, resume, completeStep, trackArtifacts, updateTrackArtifacts } = useApp();
   const navigate = useNavigate();
-  const [resources, setResources] = useState<LearningResource[]>([]);
+  const resources = trackArtifacts.learningResources?.data || [];
+  const resourcesStatus = trackArtifacts.learningResources ? statusOf(trackArtifacts.learningResources) : null;
   const [loading, setLoading] = useState(false);
 
+  const loadResources = () => {
+    if (!targetRole || !resume) return;
+    setLoading(true);
+    generateLearningPath(targetRole.title, resume.skills)
+      .then(result => updateTrackArtifacts(a => ({ ...a, learningResources: result })))
+      .finally(() => setLoading(false));
+  };
+
   useEffect(() => {
-    if (targetRole && resume && resources.length === 0) {
-      setLoading(true);
-      generateLearningPath(targetRole.title, resume.skills)
-        .then(setResources)
-        .finally(() => setLoading(false));
-    }
+    if (targetRole && resume && resources.length === 0) loadResources();
   }, [targetRole, resume]);
 
   if (!targetRole) return <div>Select a role first.</div>;
@@ -445,6 +1161,8 @@ const TechnicalPrepPage = () => {
         </Button>
       </div>
 
+      <DataSourceBanner status={resourcesStatus} onRetry={loadResources} retrying={loading} />
+
       <div className="grid md:grid-cols-3 gap-6">
         <div className="md:col-span-1 space-y-6">
           <Card title="Focus Areas">
@@ -488,105 +1206,1570 @@ const TechnicalPrepPage = () => {
   );
 };
 
-const TechnicalQuizPage = () => {
-  const { targetRole, completeStep } = useApp();
-  const navigate = useNavigate();
-  const [quiz, setQuiz] = useState<QuizQuestion[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [score, setScore] = useState(0);
-  const [finished, setFinished] = useState(false);
-  const [currentQ, setCurrentQ] = useState(0);
+// --- Question Formats ---
+const QUESTION_KIND_LABELS: Record<QuestionKind, string> = {
+  'single': 'Single choice',
+  'multi': 'Multi-select',
+  'true-false': 'True / False',
+  'fill-in': 'Fill in the blank',
+  'ordering': 'Ordering',
+  'free-text': 'Short answer',
+};
 
-  const startQuiz = () => {
-    setLoading(true);
-    generateQuiz(targetRole!.title, 'Medium')
-      .then(setQuiz)
-      .finally(() => setLoading(false));
-  };
+const OPTION_BUTTON_CLASS = 'w-full p-4 text-left rounded-xl bg-gray-50 hover:bg-purple-50 border border-gray-200 hover:border-purple-200 transition-all text-gray-700 font-medium';
 
-  const handleAnswer = (idx: number) => {
-    if (idx === quiz[currentQ].correctAnswer) setScore(s => s + 1);
-    if (currentQ < quiz.length - 1) {
-      setCurrentQ(c => c + 1);
-    } else {
-      setFinished(true);
-      completeStep(AppStep.TECHNICAL_QUIZ);
-    }
-  };
+// Ordering questions store items in the correct order, so they are shuffled for display (never left already solved)
+const shuffledOrder = (length: number): number[] => {
+  const order = Array.from({ length }, (_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return length > 1 && order.every((item, i) => item === i) ? [...order.slice(1), order[0]] : order;
+};
 
-  if (!targetRole) return <div>Select a role first.</div>;
+// Renders the answer controls for one question; key it by question so its local state resets
+const QuestionInput: React.FC<{ question: QuizQuestion; onAnswer: (answer: QuizAnswer) => void; disabled?: boolean }> = ({ question, onAnswer, disabled = false }) => {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [text, setText] = useState('');
+  const [order, setOrder] = useState<number[]>(() => (question.kind === 'ordering' ? shuffledOrder(question.items.length) : []));
+
+  const toggle = (i: number) => setSelected(prev => (prev.includes(i) ? prev.filter(x => x !== i) : [...prev, i]));
+  const move = (position: number, delta: number) => setOrder(prev => {
+    const next = [...prev];
+    [next[position], next[position + delta]] = [next[position + delta], next[position]];
+    return next;
+  });
+
+  switch (question.kind) {
+    case 'single':
+      return (
+        <div className="space-y-3">
+          {question.options.map((opt, i) => (
+            <button key={i} disabled={disabled} onClick={() => onAnswer(i)} className={OPTION_BUTTON_CLASS}>{opt}</button>
+          ))}
+        </div>
+      );
+    case 'multi':
+      return (
+        <div className="space-y-3">
+          <p className="text-xs font-bold text-gray-400 uppercase tracking-wider">Select all that apply</p>
+          {question.options.map((opt, i) => (
+            <button
+              key={i}
+              disabled={disabled}
+              onClick={() => toggle(i)}
+              className={`${OPTION_BUTTON_CLASS} flex items-center gap-3 ${selected.includes(i) ? '!bg-purple-50 !border-purple-400 text-purple-800' : ''}`}
+            >
+              <span className={`w-5 h-5 rounded border flex items-center justify-center flex-shrink-0 ${selected.includes(i) ? 'bg-purple-600 border-purple-600 text-white' : 'border-gray-300 bg-white'}`}>
+                {selected.includes(i) && <CheckCircle className="w-3.5 h-3.5" />}
+              </span>
+              {opt}
+            </button>
+          ))}
+          <Button onClick={() => onAnswer(selected)} disabled={disabled || selected.length === 0} className="mx-auto px-8">Submit Answer</Button>
+        </div>
+      );
+    case 'true-false':
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          {[true, false].map(value => (
+            <button key={String(value)} disabled={disabled} onClick={() => onAnswer(value)} className={`${OPTION_BUTTON_CLASS} text-center`}>
+              {value ? 'True' : 'False'}
+            </button>
+          ))}
+        </div>
+      );
+    case 'fill-in':
+      return (
+        <div className="space-y-3">
+          <input
+            autoFocus
+            value={text}
+            disabled={disabled}
+            onChange={e => setText(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter' && text.trim()) onAnswer(text.trim()); }}
+            placeholder="Type the missing term"
+            className="w-full p-4 rounded-xl border border-gray-200 focus:border-purple-400 focus:ring-2 focus:ring-purple-100 outline-none"
+          />
+          <Button onClick={() => onAnswer(text.trim())} disabled={disabled || !text.trim()} className="mx-auto px-8">Submit Answer</Button>
+        </div>
+      );
+    case 'ordering':
+      return (
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-gray-400 uppercase tracking-wider">Put these in the right order</p>
+          {order.map((item, position) => (
+            <div key={item} className="flex items-center gap-3 p-3 rounded-xl bg-gray-50 border border-gray-200 text-gray-700 font-medium">
+              <span className="w-6 text-center text-sm font-bold text-purple-600">{position + 1}</span>
+              <span className="flex-1">{question.items[item]}</span>
+              <button disabled={disabled || position === 0} onClick={() => move(position, -1)} className="p-1 text-gray-400 hover:text-purple-600 disabled:opacity-30" title="Move up"><ArrowUp className="w-4 h-4" /></button>
+              <button disabled={disabled || position === order.length - 1} onClick={() => move(position, 1)} className="p-1 text-gray-400 hover:text-purple-600 disabled:opacity-30" title="Move down"><ArrowDown className="w-4 h-4" /></button>
+            </div>
+          ))}
+          <Button onClick={() => onAnswer(order)} disabled={disabled} className="mx-auto px-8 mt-2">Submit Order</Button>
+        </div>
+      );
+    case 'free-text':
+      return (
+        <div className="space-y-3">
+          <textarea
+            autoFocus
+            rows={5}
+            value={text}
+            disabled={disabled}
+            onChange={e => setText(e.target.value)}
+            placeholder="Answer in a few sentences"
+            className="w-full p-4 rounded-xl border border-gray-200 focus:border-purple-400 focus:ring-2 focus:ring-purple-100 outline-none text-sm"
+          />
+          <Button onClick={() => onAnswer(text.trim())} disabled={disabled || !text.trim()} className="mx-auto px-8">
+            {disabled ? 'Grading...' : 'Submit Answer'}
+          </Button>
+        </div>
+      );
+  }
+};
 
+// Shows what was answered against the right answer, in the question's own format
+const AnswerReview: React.FC<{ question: QuizQuestion; answer: QuizAnswer | null; grade: QuestionGrade | null }> = ({ question, answer, grade }) => {
+  if (question.kind === 'single' || question.kind === 'multi') {
+    const correct = question.kind === 'single' ? [question.correctAnswer] : question.correctAnswers;
+    const chosen = answer === null ? [] : Array.isArray(answer) ? answer : [answer as number];
+    return (
+      <div className="space-y-2">
+        {question.options.map((opt, j) => (
+          <div
+            key={j}
+            className={`px-3 py-2 rounded-lg text-sm border ${
+              correct.includes(j)
+                ? 'bg-emerald-100 border-emerald-300 text-emerald-800 font-semibold'
+                : chosen.includes(j)
+                  ? 'bg-red-100 border-red-300 text-red-800'
+                  : 'bg-white border-gray-100 text-gray-600'
+            }`}
+          >
+            {opt}
+            {chosen.includes(j) && <span className="ml-2 text-[10px] uppercase tracking-wide">Your answer</span>}
+            {correct.includes(j) && !chosen.includes(j) && <span className="ml-2 text-[10px] uppercase tracking-wide">Correct answer</span>}
+          </div>
+        ))}
+        {answer === null && <p className="text-xs text-gray-500 italic">Not answered</p>}
+      </div>
+    );
+  }
   return (
-    <div className="max-w-3xl mx-auto space-y-8">
-      <div className="text-center py-6">
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Technical Proficiency Test</h1>
-        <p className="text-gray-500">Role: {targetRole.title}</p>
+    <div className="space-y-2 text-sm">
+      <div className={`px-3 py-2 rounded-lg border ${grade?.correct ? 'bg-emerald-100 border-emerald-300 text-emerald-800' : 'bg-red-100 border-red-300 text-red-800'}`}>
+        <span className="text-[10px] uppercase tracking-wide block opacity-70">Your answer{question.kind === 'free-text' && grade && ` · ${Math.round(grade.score * 100)}%`}</span>
+        {describeAnswer(question, answer)}
       </div>
+      {!(grade?.correct && question.kind !== 'free-text') && (
+        <div className="px-3 py-2 rounded-lg border bg-emerald-50 border-emerald-200 text-emerald-800">
+          <span className="text-[10px] uppercase tracking-wide block opacity-70">{question.kind === 'free-text' ? 'Model answer' : 'Correct answer'}</span>
+          {describeCorrectAnswer(question)}
+        </div>
+      )}
+      {grade?.feedback && answer !== null && <p className="text-gray-600 italic">{grade.feedback}</p>}
+    </div>
+  );
+};
 
-      <Card className="min-h-[400px] flex flex-col justify-center">
-        {!quiz.length ? (
-           <div className="text-center">
-             <div className="w-20 h-20 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-6">
-               <Brain className="w-10 h-10 text-purple-600" />
-             </div>
-             <h3 className="text-xl font-semibold text-gray-900 mb-2">Ready to begin?</h3>
-             <p className="text-gray-500 mb-8 max-w-md mx-auto">This quiz contains 5 technical questions tailored to your target role. No time limit.</p>
-             <Button onClick={startQuiz} className="mx-auto px-8" disabled={loading}>
-               {loading ? 'Generating Questions...' : 'Start Assessment'}
-             </Button>
-           </div>
-        ) : finished ? (
+// Free-text answers wait for the AI grade; the time spent is charged up to the moment of submitting
+const useAnswerSubmission = (session: QuizSession | undefined, apply: (next: QuizSession) => void) => {
+  const [grading, setGrading] = useState(false);
+  // The exam clock keeps running while a grade is pending, so the result is applied to the latest session
+  const latest = useRef(session);
+  latest.current = session;
+
+  const submit = async (answer: QuizAnswer) => {
+    if (!session) return;
+    const question = session.questions[session.currentIndex];
+    if (question.kind !== 'free-text') {
+      apply(answerCurrentQuestion(session, answer));
+      return;
+    }
+    const answeredAt = Date.now();
+    setGrading(true);
+    const { data: grade } = await gradeFreeTextAnswer(question, String(answer));
+    setGrading(false);
+    const current = latest.current;
+    // The timer moved past this question (or ended the exam) in the meantime; its expiry stands
+    if (!current || current.id !== session.id || current.currentIndex !== session.currentIndex || current.finished) return;
+    // Pausing already charged the question's time, so a paused session adds none on top
+    apply(answerCurrentQuestion(current, answer, current.pausedAt ? current.questionStartedAt : answeredAt, grade));
+  };
+
+  return { grading, submit };
+};
+
+// --- Quiz Review & History ---
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+const QuizReview: React.FC<{ attempt: QuizAttempt; onClose: () => void }> = ({ attempt, onClose }) => (
+  <div className="space-y-4">
+    <div className="flex justify-between items-center">
+      <div>
+        <h3 className="text-xl font-bold text-gray-900">Answer Review</h3>
+        <p className="text-sm text-gray-500">
+          {attempt.correctCount} / {attempt.questions.length} correct · {attempt.levels ? `Adaptive, ended at ${attempt.difficulty}` : attempt.difficulty} · {formatDuration(totalTimeMs(attempt))}{attempt.timing && ' · Timed exam'}
+        </p>
+      </div>
+      <Button variant="secondary" onClick={onClose} className="text-sm py-1.5">Close Review</Button>
+    </div>
+    {attempt.questions.map((q, i) => {
+      const isCorrect = !!attempt.grades[i]?.correct;
+      return (
+        <div key={i} className={`p-5 rounded-xl border ${isCorrect ? 'border-emerald-200 bg-emerald-50/50' : 'border-red-200 bg-red-50/50'}`}>
+          <div className="flex justify-between items-start gap-4 mb-3">
+            <p className="font-bold text-gray-900">
+              {i + 1}. {q.question}
+              {attempt.levels && <span className="ml-2 px-2 py-0.5 rounded-full bg-purple-100 text-purple-700 text-[10px] uppercase tracking-wide align-middle">{attempt.levels[i]}</span>}
+            </p>
+            <span className="text-xs text-gray-400 whitespace-nowrap">{formatDuration(attempt.timesMs[i] || 0)}</span>
+          </div>
+          <AnswerReview question={q} answer={attempt.answers[i]} grade={attempt.grades[i]} />
+          {q.explanation && <p className="mt-3 text-sm text-gray-600"><span className="font-semibold text-gray-800">Explanation: </span>{q.explanation}</p>}
+        </div>
+      );
+    })}
+  </div>
+);
+
+const QuizHistoryList: React.FC<{ history: QuizAttempt[]; onReview: (attempt: QuizAttempt) => void }> = ({ history, onReview }) => (
+  <Card title="Past Attempts">
+    <div className="space-y-2">
+      {history.map(attempt => (
+        <button
+          key={attempt.id}
+          onClick={() => onReview(attempt)}
+          className="w-full flex items-center gap-4 p-3 rounded-lg bg-gray-50 hover:bg-purple-50 border border-gray-100 hover:border-purple-200 text-left transition-all"
+        >
+          <span className="text-lg font-black text-purple-600 w-14">{scorePercent(attempt)}%</span>
+          <span className="flex-1 text-sm text-gray-700">
+            {new Date(attempt.finishedAt).toLocaleString()}
+            <span className="block text-xs text-gray-400">{attempt.levels ? `Adaptive, ended at ${attempt.difficulty}` : attempt.difficulty} · {formatDuration(totalTimeMs(attempt))}</span>
+          </span>
+          {attempt.passThreshold !== undefined && (
+            <span className={`text-[10px] font-bold uppercase px-2 py-1 rounded-full ${scorePercent(attempt) >= attempt.passThreshold ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'}`}>
+              {scorePercent(attempt) >= attempt.passThreshold ? 'Passed' : 'Below pass mark'}
+            </span>
+          )}
+          <ChevronRight className="w-4 h-4 text-gray-400" />
+        </button>
+      ))}
+    </div>
+  </Card>
+);
+
+// --- Exam Mode ---
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const ExamModeSetup: React.FC<{ timing: ExamTiming | null; defaults: ExamTiming; onChange: (t: ExamTiming | null) => void }> = ({ timing, defaults, onChange }) => {
+  const inputClass = "w-20 px-2 py-1 border border-gray-300 rounded-lg text-center focus:ring-2 focus:ring-purple-500 outline-none";
+  // Empty or zero inputs switch that limit off
+  const toLimit = (value: string, scale: number) => (Number(value) > 0 ? Math.round(Number(value) * scale) : null);
+
+  return (
+    <div className="max-w-md mx-auto mb-8 text-sm">
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        {([['Practice', null], ['Timed Exam', defaults]] as [string, ExamTiming | null][]).map(([label, value]) => (
+          <button
+            key={label}
+            onClick={() => onChange(value)}
+            className={`p-2 rounded-lg border font-medium transition-all ${!!timing === !!value ? 'border-purple-500 bg-purple-50 text-purple-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {timing ? (
+        <div className="space-y-2 text-left text-gray-600">
+          <label className="flex items-center justify-between">
+            Total time (minutes)
+            <input type="number" min={0} value={timing.totalSeconds ? timing.totalSeconds / 60 : ''} onChange={e => onChange({ ...timing, totalSeconds: toLimit(e.target.value, 60) })} className={inputClass} placeholder="None" />
+          </label>
+          <label className="flex items-center justify-between">
+            Per question (seconds)
+            <input type="number" min={0} value={timing.perQuestionSeconds ?? ''} onChange={e => onChange({ ...timing, perQuestionSeconds: toLimit(e.target.value, 1) })} className={inputClass} placeholder="None" />
+          </label>
+          <label className="flex items-center justify-between">
+            Pauses allowed
+            <input type="number" min={0} value={timing.maxPauses} onChange={e => onChange({ ...timing, maxPauses: Math.max(0, Math.round(Number(e.target.value))) })} className={inputClass} />
+          </label>
+          <p className="text-xs text-gray-400 pt-1">
+            Unanswered questions are submitted blank when time runs out. The clock keeps running if you leave the page; questions are hidden while paused.
+          </p>
+        </div>
+      ) : (
+        <p className="text-gray-500">No time limit.</p>
+      )}
+    </div>
+  );
+};
+
+const ExamStatusBar: React.FC<{ session: QuizSession; now: number; onPause: () => void; onResume: () => void }> = ({ session, now, onPause, onResume }) => {
+  if (!session.timing || session.finished) return null;
+  const { total, question } = remainingTime(session, now);
+  const pausesLeft = session.timing.maxPauses - (session.pausesUsed || 0);
+  const tone = (ms: number) => (ms <= 30000 ? 'text-red-600 bg-red-50 border-red-200' : 'text-gray-700 bg-gray-50 border-gray-200');
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-6">
+      {total !== null && (
+        <span className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm font-bold tabular-nums ${tone(total)}`}>
+          <Timer className="w-4 h-4" /> {formatCountdown(total)} left
+        </span>
+      )}
+      {question !== null && (
+        <span className={`px-3 py-1.5 rounded-lg border text-sm font-bold tabular-nums ${tone(question)}`}>
+          This question: {formatCountdown(question)}
+        </span>
+      )}
+      <div className="flex-1" />
+      {session.pausedAt ? (
+        <Button onClick={onResume} variant="success" className="text-sm py-1.5"><Play className="w-4 h-4" /> Resume</Button>
+      ) : session.timing.maxPauses > 0 && (
+        <Button onClick={onPause} variant="secondary" className="text-sm py-1.5" disabled={!canPause(session)}>
+          <Pause className="w-4 h-4" /> Pause ({pausesLeft} left)
+        </Button>
+      )}
+    </div>
+  );
+};
+
+const PausedNotice: React.FC<{ onResume: () => void }> = ({ onResume }) => (
+  <div className="text-center py-12">
+    <Pause className="w-10 h-10 text-purple-400 mx-auto mb-4" />
+    <h3 className="text-xl font-bold text-gray-900 mb-2">Exam Paused</h3>
+    <p className="text-gray-500 mb-6">Questions are hidden until you resume. The clock is stopped.</p>
+    <Button onClick={onResume} className="mx-auto px-8">Resume Exam</Button>
+  </div>
+);
+
+// Ticks the exam clock and auto-submits the session whenever a limit runs out
+const useExamTimer = (session: QuizSession | undefined, apply: (next: QuizSession) => void) => {
+  const running = !!session?.timing && !session.finished && !session.pausedAt;
+  const now = useClock(running);
+
+  useEffect(() => {
+    if (!session || !running) return;
+    const next = expireSession(session, now);
+    if (next !== session) apply(next);
+  }, [now, running]);
+
+  return now;
+};
+
+type QuizMode = QuizDifficulty | 'Adaptive';
+const QUIZ_MODES: QuizMode[] = ['Easy', 'Medium', 'Hard', 'Adaptive'];
+const QUIZ_EXAM_DEFAULTS: ExamTiming = { totalSeconds: 10 * 60, perQuestionSeconds: 90, maxPauses: 1 };
+
+const TechnicalQuizPage = () => {
+  const { targetRole, resume, completeStep, trackArtifacts, updateTrackArtifacts } = useApp();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(false);
+  const [difficulty, setDifficulty] = useState<QuizMode>('Medium');
+  const [timing, setTiming] = useState<ExamTiming | null>(null);
+  const [kinds, setKinds] = useState<QuestionKind[]>(['single']);
+  const [reviewing, setReviewing] = useState<QuizAttempt | null>(null);
+  const batchRequest = useRef<string | null>(null);
+
+  const session = trackArtifacts.technicalQuiz;
+  const history = trackArtifacts.quizHistory || [];
+  const quiz = session?.questions || [];
+  const quizStatus = session?.status || null;
+  const finished = session?.finished || false;
+  const currentQ = session?.currentIndex || 0;
+  const score = session ? countCorrect(session) : 0;
+  const totalQuestions = session?.adaptive?.targetCount || quiz.length;
+  const startLevel = startingDifficulty(resume?.yearsOfExperience || 0);
+
+  const setSession = (technicalQuiz: QuizSession | undefined) => updateTrackArtifacts(a => ({ ...a, technicalQuiz }));
+
+  const startQuiz = (
+    mode: QuizMode = session?.adaptive ? 'Adaptive' : session?.difficulty || difficulty,
+    examTiming: ExamTiming | null = session?.timing || null,
+    questionKinds: QuestionKind[] = session?.kinds || kinds
+  ) => {
+    setLoading(true);
+    setReviewing(null);
+    const request = mode === 'Adaptive'
+      ? generateQuiz(targetRole!.title, startLevel, 'Technical', ADAPTIVE_BATCH_SIZE, [], questionKinds)
+          .then(result => createAdaptiveSession(result, startLevel, examTiming || undefined, questionKinds))
+      : generateQuiz(targetRole!.title, mode, 'Technical', 5, [], questionKinds)
+          .then(result => createQuizSession(result, mode, examTiming || undefined, questionKinds));
+    request
+      .then(setSession)
+      .finally(() => setLoading(false));
+  };
+
+  // Finishing records the attempt in the role's history
+  const withSession = (a: TrackArtifacts, next: QuizSession): TrackArtifacts => {
+    if (!next.finished) return { ...a, technicalQuiz: next };
+    const attempt = toQuizAttempt(next);
+    return {
+      ...a,
+      technicalQuiz: next,
+      quizHistory: addQuizAttempt(a.quizHistory, attempt),
+      reviewDeck: addMissedQuestions(a.reviewDeck, attempt, 'quiz')
+    };
+  };
+
+  // Answers and timer expiry both land here
+  const applySession = (next: QuizSession) => {
+    updateTrackArtifacts(a => withSession(a, next));
+    if (next.finished) completeStep(AppStep.TECHNICAL_QUIZ);
+  };
+
+  const now = useExamTimer(session, applySession);
+  const { grading, submit } = useAnswerSubmission(session, applySession);
+  const waitingForBatch = !!session && awaitingQuestions(session);
+
+  // Adaptive sessions fetch their next batch once the loaded questions are used up.
+  // The reply is only appended to the session that asked for it, and only if no other reply got there first.
+  useEffect(() => {
+    if (!session || !targetRole || !awaitingQuestions(session)) return;
+    const requestKey = `${session.id}:${session.questions.length}`;
+    if (batchRequest.current === requestKey) return;
+    batchRequest.current = requestKey;
+
+    const level = nextDifficulty(session);
+    generateQuiz(targetRole.title, level, 'Technical', session.adaptive!.batchSize, session.questions.map(q => q.question), session.kinds)
+      .then(result => {
+        updateTrackArtifacts(a => {
+          const current = a.technicalQuiz;
+          if (!current || current.id !== session.id || current.questions.length !== session.questions.length || !awaitingQuestions(current)) return a;
+          return withSession(a, appendAdaptiveBatch(result, current, level));
+        });
+        // An empty reply ends the quiz
+        if (result.data.length === 0) completeStep(AppStep.TECHNICAL_QUIZ);
+      });
+  }, [session]);
+
+  const toggleKind = (kind: QuestionKind) =>
+    setKinds(prev => (prev.includes(kind) ? (prev.length > 1 ? prev.filter(k => k !== kind) : prev) : [...prev, kind]));
+
+  if (!targetRole) return <div>Select a role first.</div>;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8">
+      <div className="text-center py-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Technical Proficiency Test</h1>
+        <p className="text-gray-500">Role: {targetRole.title}</p>
+      </div>
+
+      {quiz.length > 0 && !reviewing && !waitingForBatch && <DataSourceBanner status={quizStatus} onRetry={() => startQuiz()} retrying={loading} retryLabel="Regenerate Quiz" />}
+
+      <Card className="min-h-[400px] flex flex-col justify-center">
+        {reviewing ? (
+           <QuizReview attempt={reviewing} onClose={() => setReviewing(null)} />
+        ) : !quiz.length ? (
+           <div className="text-center">
+             <div className="w-20 h-20 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-6">
+               <Brain className="w-10 h-10 text-purple-600" />
+             </div>
+             <h3 className="text-xl font-semibold text-gray-900 mb-2">Ready to begin?</h3>
+             <p className="text-gray-500 mb-6 max-w-md mx-auto">
+               {difficulty === 'Adaptive'
+                 ? `${ADAPTIVE_QUESTION_COUNT} questions in batches of ${ADAPTIVE_BATCH_SIZE}. Starts at ${startLevel} for ${resume?.yearsOfExperience || 0} years of experience and adjusts to your answers.`
+                 : 'This quiz contains 5 technical questions tailored to your target role.'}
+             </p>
+             <div className="flex justify-center gap-2 mb-6">
+               {QUIZ_MODES.map(level => (
+                 <button
+                   key={level}
+                   onClick={() => setDifficulty(level)}
+                   className={`px-4 py-1.5 rounded-full border text-sm font-medium transition-all ${difficulty === level ? 'border-purple-500 bg-purple-50 text-purple-700' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                 >
+                   {level}
+                 </button>
+               ))}
+             </div>
+             <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Question formats</p>
+             <div className="flex flex-wrap justify-center gap-2 mb-6">
+               {(Object.keys(QUESTION_KIND_LABELS) as QuestionKind[]).map(kind => (
+                 <button
+                   key={kind}
+                   onClick={() => toggleKind(kind)}
+                   className={`px-3 py-1 rounded-full border text-xs font-medium transition-all ${kinds.includes(kind) ? 'border-purple-500 bg-purple-50 text-purple-700' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                 >
+                   {QUESTION_KIND_LABELS[kind]}
+                 </button>
+               ))}
+             </div>
+             <ExamModeSetup timing={timing} defaults={QUIZ_EXAM_DEFAULTS} onChange={setTiming} />
+             <Button onClick={() => startQuiz(difficulty, timing, kinds)} className="mx-auto px-8" disabled={loading}>
+               {loading ? 'Generating Questions...' : 'Start Assessment'}
+             </Button>
+           </div>
+        ) : finished ? (
            <div className="text-center">
              <h3 className="text-2xl font-bold text-gray-900 mb-2">Assessment Completed</h3>
              <div className="text-6xl font-black text-transparent bg-clip-text bg-gradient-to-r from-purple-600 to-pink-600 mb-4 py-2">{Math.round((score / quiz.length) * 100)}%</div>
-             <p className="text-gray-500 mb-8">You answered {score} out of {quiz.length} questions correctly.</p>
+             <p className="text-gray-500 mb-8">
+               You answered {score} out of {quiz.length} questions correctly.
+               {session?.adaptive && <span className="block mt-1">Your level settled at <strong className="text-purple-700">{session.difficulty}</strong>.</span>}
+             </p>
              <div className="flex justify-center gap-4">
-                <Button onClick={() => { setQuiz([]); setFinished(false); setScore(0); setCurrentQ(0); }} variant="secondary">Retry Quiz</Button>
+                <Button onClick={() => setReviewing(toQuizAttempt(session!))} variant="outline">Review Answers</Button>
+                <Button onClick={() => setSession(undefined)} variant="secondary">Retry Quiz</Button>
                 <Button onClick={() => navigate('/aptitude')} variant="primary">Next Step <ChevronRight className="w-4 h-4" /></Button>
              </div>
            </div>
+        ) : session?.pausedAt ? (
+           <PausedNotice onResume={() => setSession(resumeSession(session))} />
+        ) : session && awaitingQuestions(session) ? (
+           <div className="flex flex-col items-center gap-3 py-12 text-gray-500">
+             <div className="w-8 h-8 border-4 border-purple-200 border-t-purple-600 rounded-full animate-spin"></div>
+             Adjusting difficulty to your answers...
+           </div>
         ) : (
            <div>
+             <ExamStatusBar session={session!} now={now} onPause={() => setSession(pauseSession(session!))} onResume={() => setSession(resumeSession(session!))} />
              <div className="flex justify-between text-sm font-medium text-gray-400 mb-4 uppercase tracking-wider">
-               <span>Question {currentQ + 1} / {quiz.length}</span>
+               <span>Question {currentQ + 1} / {totalQuestions}</span>
+               {session?.adaptive && <span className="text-purple-600">Level: {session.adaptive.levels[currentQ]}</span>}
                <span>Score: {score}</span>
              </div>
              <div className="w-full bg-gray-100 h-2 rounded-full mb-8 overflow-hidden">
-               <div className="bg-gradient-to-r from-purple-500 to-pink-500 h-full transition-all duration-500 ease-out" style={{ width: `${((currentQ + 1) / quiz.length) * 100}%` }}></div>
+               <div className="bg-gradient-to-r from-purple-500 to-pink-500 h-full transition-all duration-500 ease-out" style={{ width: `${((currentQ + 1) / totalQuestions) * 100}%` }}></div>
              </div>
              <h3 className="text-xl font-bold text-gray-900 mb-8 leading-snug">{quiz[currentQ].question}</h3>
-             <div className="space-y-3">
-               {quiz[currentQ].options.map((opt, i) => (
-                 <button key={i} onClick={() => handleAnswer(i)} className="w-full p-4 text-left rounded-xl bg-gray-50 hover:bg-purple-50 border border-gray-200 hover:border-purple-200 transition-all text-gray-700 font-medium">
-                   {opt}
-                 </button>
-               ))}
-             </div>
+             <QuestionInput key={`${session!.id}:${currentQ}`} question={quiz[currentQ]} onAnswer={submit} disabled={grading} />
            </div>
         )}
-      </Card>
+      </Card>
+
+      {history.length > 0 && <QuizHistoryList history={history} onReview={setReviewing} />}
+    </div>
+  );
+};
+
+const RECALL_BUTTONS: { quality: RecallQuality; label: string; className: string }[] = [
+  { quality: 1, label: 'Again', className: 'border-red-200 text-red-700 hover:bg-red-50' },
+  { quality: 3, label: 'Hard', className: 'border-amber-200 text-amber-700 hover:bg-amber-50' },
+  { quality: 4, label: 'Good', className: 'border-emerald-200 text-emerald-700 hover:bg-emerald-50' },
+  { quality: 5, label: 'Easy', className: 'border-blue-200 text-blue-700 hover:bg-blue-50' },
+];
+
+const formatInterval = (days: number) => (days <= 1 ? 'tomorrow' : `in ${days} days`);
+
+const ReviewPage = () => {
+  const { targetRole, completeStep, trackArtifacts, updateTrackArtifacts } = useApp();
+  const [picked, setPicked] = useState<QuizAnswer | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const deck = trackArtifacts.reviewDeck || [];
+  const due = dueCards(deck);
+  const card = due[0];
+  const upcoming = nextDueAt(deck);
+
+  const resetCard = () => {
+    setPicked(null);
+    setRevealed(false);
+  };
+
+  const handleRate = (quality: RecallQuality) => {
+    const rated = reviewCard(card, quality);
+    updateTrackArtifacts(a => ({ ...a, reviewDeck: replaceCard(a.reviewDeck, rated) }));
+    setReviewedCount(c => c + 1);
+    resetCard();
+    if (due.length === 1) completeStep(AppStep.DAILY_REVIEW);
+  };
+
+  const handleRemove = () => {
+    if (!window.confirm("Remove this question from your review deck?")) return;
+    updateTrackArtifacts(a => ({ ...a, reviewDeck: removeCard(a.reviewDeck, card.id) }));
+    resetCard();
+  };
+
+  if (!targetRole) return <div>Select a role first.</div>;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8">
+      <div className="flex justify-between items-center bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-1">Daily Review</h1>
+          <p className="text-gray-500 text-sm">Questions you missed for <span className="font-semibold text-purple-600">{targetRole.title}</span>, spaced out so they stick.</p>
+        </div>
+        <div className="text-right">
+          <p className="text-3xl font-black text-purple-600">{due.length}</p>
+          <p className="text-xs text-gray-400 uppercase tracking-wider">due of {deck.length}</p>
+        </div>
+      </div>
+
+      <Card className="min-h-[360px] flex flex-col justify-center">
+        {!card ? (
+          <div className="text-center py-8">
+            <div className="w-20 h-20 bg-emerald-100 rounded-full flex items-center justify-center mx-auto mb-6">
+              <CheckCircle className="w-10 h-10 text-emerald-600" />
+            </div>
+            {deck.length === 0 ? (
+              <>
+                <h3 className="text-xl font-semibold text-gray-900 mb-2">Your deck is empty</h3>
+                <p className="text-gray-500 max-w-md mx-auto">Questions you get wrong in the tech quiz or the mock test are added here automatically.</p>
+              </>
+            ) : (
+              <>
+                <h3 className="text-xl font-semibold text-gray-900 mb-2">All caught up!</h3>
+                <p className="text-gray-500 max-w-md mx-auto">
+                  {reviewedCount > 0 && `You reviewed ${reviewedCount} card${reviewedCount === 1 ? '' : 's'}. `}
+                  {upcoming && `Next card is due ${new Date(upcoming).toLocaleString()}.`}
+                </p>
+              </>
+            )}
+          </div>
+        ) : (
+          <div>
+            <div className="flex justify-between items-center mb-6">
+              <span className="px-3 py-1 bg-purple-100 text-purple-700 text-xs rounded-full font-bold uppercase">
+                {card.source === 'mock' ? 'Mock Test' : 'Tech Quiz'}{card.lapses > 0 && ` · missed ${card.lapses + 1}x`}
+              </span>
+              <button onClick={handleRemove} className="text-gray-300 hover:text-red-500" title="Remove from deck"><Trash2 className="w-4 h-4" /></button>
+            </div>
+            <h3 className="text-xl font-bold text-gray-900 mb-6 leading-snug">{card.question.question}</h3>
+            {!revealed ? (
+              <QuestionInput key={card.id} question={card.question} onAnswer={answer => { setPicked(answer); setRevealed(true); }} />
+            ) : (
+              <AnswerReview question={card.question} answer={picked} grade={picked === null ? null : gradeAnswer(card.question, picked)} />
+            )}
+
+            {!revealed ? (
+              <Button variant="secondary" onClick={() => setRevealed(true)} className="mt-6 mx-auto">Show Answer</Button>
+            ) : (
+              <div className="mt-6 space-y-4">
+                {card.question.explanation && <p className="text-sm text-gray-600"><span className="font-semibold text-gray-800">Explanation: </span>{card.question.explanation}</p>}
+                <p className="text-xs font-bold text-gray-400 uppercase tracking-wider text-center">How well did you remember it?</p>
+                <div className="grid grid-cols-4 gap-2">
+                  {RECALL_BUTTONS.map(({ quality, label, className }) => (
+                    <button key={label} onClick={() => handleRate(quality)} className={`p-2 rounded-lg border bg-white text-sm font-semibold transition-all ${className}`}>
+                      {label}
+                      <span className="block text-[10px] font-normal opacity-70">{formatInterval(reviewCard(card, quality).intervalDays)}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+// --- Coding Challenge ---
+const CODE_LANGUAGES: { id: CodeLanguage; label: string }[] = [
+  { id: 'javascript', label: 'JavaScript' },
+  { id: 'typescript', label: 'TypeScript' },
+];
+
+const formatCall = (functionName: string, args: unknown[]) => `${functionName}(${args.map(a => JSON.stringify(a)).join(', ')})`;
+
+const TestResultRow: React.FC<{ index: number; test: ChallengeTestCase; result: TestResult | null; functionName: string }> = ({ index, test, result, functionName }) => (
+  <div className={`p-3 rounded-lg border text-sm ${!result ? 'border-gray-100 bg-gray-50 text-gray-400' : result.passed ? 'border-emerald-200 bg-emerald-50/50' : 'border-red-200 bg-red-50/50'}`}>
+    <div className="flex justify-between items-center gap-3">
+      <span className="font-semibold text-gray-800">
+        Test {index + 1}{test.hidden && <span className="ml-2 text-[10px] uppercase tracking-wide text-gray-400">Hidden</span>}
+      </span>
+      {!result ? (
+        <span className="text-xs">Not run</span>
+      ) : (
+        <span className={`text-xs font-bold uppercase ${result.passed ? 'text-emerald-700' : 'text-red-700'}`}>
+          {result.passed ? 'Passed' : result.timedOut ? 'Timed out' : 'Failed'} · {Math.round(result.durationMs)} ms
+        </span>
+      )}
+    </div>
+    {!test.hidden && (
+      <div className="mt-2 font-mono text-xs space-y-1 text-gray-600 break-all">
+        <p><span className="text-gray-400">Call: </span>{formatCall(functionName, test.args)}</p>
+        <p><span className="text-gray-400">Expected: </span>{JSON.stringify(test.expected)}</p>
+        {result?.actual !== undefined && <p><span className="text-gray-400">Returned: </span>{result.actual}</p>}
+      </div>
+    )}
+    {result?.error && <p className="mt-2 font-mono text-xs text-red-700 break-all">{result.error}</p>}
+    {!test.hidden && !!result?.logs.length && (
+      <pre className="mt-2 p-2 rounded bg-gray-900 text-gray-100 text-xs overflow-x-auto">{result.logs.join('\n')}</pre>
+    )}
+  </div>
+);
+
+const RATING_COLORS = ['bg-red-500', 'bg-red-400', 'bg-amber-400', 'bg-emerald-400', 'bg-emerald-500'];
+
+const RubricList: React.FC<{ criteria: { id: string; label: string }[]; rubric: Record<string, RubricRating> }> = ({ criteria, rubric }) => (
+  <div className="space-y-3">
+    {criteria.map(({ id, label }) => {
+      const rating = rubric[id];
+      return (
+        <div key={id}>
+          <div className="flex justify-between text-sm font-medium text-gray-700 mb-1">
+            <span>{label}</span>
+            <span>{rating.score === null ? 'Not rated' : `${rating.score} / 5`}</span>
+          </div>
+          <div className="flex gap-1 mb-1">
+            {[1, 2, 3, 4, 5].map(step => (
+              <div key={step} className={`h-1.5 flex-1 rounded-full ${rating.score !== null && step <= rating.score ? RATING_COLORS[rating.score - 1] : 'bg-gray-100'}`}></div>
+            ))}
+          </div>
+          {rating.comment && <p className="text-xs text-gray-500">{rating.comment}</p>}
+        </div>
+      );
+    })}
+  </div>
+);
+
+const CodeReviewPanel: React.FC<{ review: CodeReview; outdated: boolean; onUseSolution: (code: string) => void }> = ({ review, outdated, onUseSolution }) => {
+  const [showSolution, setShowSolution] = useState(false);
+  const score = codeReviewScore(review);
+
+  return (
+    <Card title="Code Review">
+      {outdated && <p className="mb-4 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">Your code changed after this review. Request a new review to include your edits.</p>}
+      <div className="flex items-start gap-4 mb-5">
+        <div className="text-center">
+          <p className="text-4xl font-black text-purple-600">{score ?? '–'}</p>
+          <p className="text-[10px] text-gray-400 uppercase tracking-wider">Rubric score</p>
+        </div>
+        <p className="text-sm text-gray-700 leading-relaxed">{review.summary}</p>
+      </div>
+
+      <div className="mb-5">
+        <RubricList criteria={CODE_REVIEW_CRITERIA} rubric={review.rubric} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-5 text-sm">
+        <div className="p-3 rounded-lg bg-gray-50 border border-gray-100">
+          <p className="text-[10px] text-gray-400 uppercase tracking-wider">Time</p>
+          <p className="font-mono text-gray-800">{review.timeComplexity}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-gray-50 border border-gray-100">
+          <p className="text-[10px] text-gray-400 uppercase tracking-wider">Space</p>
+          <p className="font-mono text-gray-800">{review.spaceComplexity}</p>
+        </div>
+      </div>
+
+      {review.missedEdgeCases.length > 0 && (
+        <div className="mb-5">
+          <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Edge cases missed</h4>
+          <ul className="list-disc list-inside text-sm text-gray-600 space-y-1">
+            {review.missedEdgeCases.map((c, i) => <li key={i} className="break-words">{c}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {review.improvedSolution && (
+        <div>
+          <div className="flex justify-between items-center">
+            <button onClick={() => setShowSolution(s => !s)} className="text-sm font-semibold text-purple-600 hover:text-purple-800">
+              {showSolution ? 'Hide reference solution' : 'Show reference solution'}
+            </button>
+            {showSolution && (
+              <button onClick={() => onUseSolution(review.improvedSolution)} className="text-xs text-gray-500 hover:text-purple-600">Copy into editor</button>
+            )}
+          </div>
+          {showSolution && <pre className="mt-2 p-4 rounded-lg bg-gray-900 text-gray-100 text-xs font-mono overflow-x-auto">{review.improvedSolution}</pre>}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+const CodingChallengePage = () => {
+  const { targetRole, resume, completeStep, trackArtifacts, updateTrackArtifacts } = useApp();
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState<'run' | 'submit' | null>(null);
+  const [requestingReview, setRequestingReview] = useState(false);
+  const [compileError, setCompileError] = useState<string | null>(null);
+  const [difficulty, setDifficulty] = useState<QuizDifficulty>(() => startingDifficulty(resume?.yearsOfExperience || 0));
+
+  const session = trackArtifacts.codingChallenge;
+  const challenge = session?.challenge;
+
+  const setSession = (codingChallenge: CodingSession | undefined) => updateTrackArtifacts(a => ({ ...a, codingChallenge }));
+
+  const loadChallenge = (level: QuizDifficulty = session?.difficulty || difficulty) => {
+    if (!targetRole) return;
+    setLoading(true);
+    setCompileError(null);
+    generateCodingChallenge(targetRole.title, level)
+      .then(result => setSession(createCodingSession(result, level, session?.language)))
+      .finally(() => setLoading(false));
+  };
+
+  const runTests = async (submitted: boolean) => {
+    if (!session) return;
+    setRunning(submitted ? 'submit' : 'run');
+    setCompileError(null);
+    try {
+      const results = await runChallengeTests(session.challenge, session.code, session.language, submitted);
+      // The code may have been edited while the tests ran; the results still belong to this challenge
+      updateTrackArtifacts(a => ({
+        ...a,
+        codingChallenge: a.codingChallenge?.id === session.id ? recordRun(a.codingChallenge, results, submitted) : a.codingChallenge
+      }));
+      if (submitted && allTestsPassed(results)) completeStep(AppStep.CODING_CHALLENGE);
+    } catch (e) {
+      setCompileError(e instanceof CompileError ? e.message : `Could not run the tests: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const requestReview = () => {
+    if (!session) return;
+    setRequestingReview(true);
+    reviewCodingSolution(session)
+      .then(review => updateTrackArtifacts(a => ({
+        ...a,
+        codingChallenge: a.codingChallenge?.id === session.id ? { ...a.codingChallenge, review } : a.codingChallenge
+      })))
+      .finally(() => setRequestingReview(false));
+  };
+
+  const applyReferenceSolution = (code: string) => {
+    if (session && window.confirm("Replace your code with the reference solution?")) setSession({ ...session, code });
+  };
+
+  // Tab indents instead of leaving the editor
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || !session) return;
+    e.preventDefault();
+    const editor = e.currentTarget;
+    const { selectionStart, selectionEnd } = editor;
+    setSession({ ...session, code: `${session.code.slice(0, selectionStart)}  ${session.code.slice(selectionEnd)}` });
+    requestAnimationFrame(() => { editor.selectionStart = editor.selectionEnd = selectionStart + 2; });
+  };
+
+  if (!targetRole) return <div>Select a role first.</div>;
+
+  const results = session?.results || null;
+  const ran = results ? results.filter(Boolean).length : 0;
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex justify-between items-center bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-1">Coding Challenge</h1>
+          <p className="text-gray-500 text-sm">Live-coding practice for <span className="font-semibold text-purple-600">{targetRole.title}</span>. Your code runs in a sandbox in your browser.</p>
+        </div>
+        {session && (
+          <Button variant="secondary" onClick={() => { if (window.confirm("Start a new challenge? Your current code will be discarded.")) loadChallenge(); }} disabled={loading || !!running}>
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} /> New Challenge
+          </Button>
+        )}
+      </div>
+
+      {session && <DataSourceBanner status={session.status} onRetry={() => loadChallenge()} retrying={loading} retryLabel="Generate Again" />}
+
+      {!session || !challenge ? (
+        <Card className="min-h-[320px] flex flex-col justify-center">
+          <div className="text-center">
+            <div className="w-20 h-20 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-6">
+              <Code className="w-10 h-10 text-purple-600" />
+            </div>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Practice a live-coding round</h3>
+            <p className="text-gray-500 mb-6 max-w-md mx-auto">Solve a problem in JavaScript or TypeScript. Run the visible examples as often as you like, then submit against the hidden tests.</p>
+            <div className="flex justify-center gap-2 mb-6">
+              {(['Easy', 'Medium', 'Hard'] as QuizDifficulty[]).map(level => (
+                <button
+                  key={level}
+                  onClick={() => setDifficulty(level)}
+                  className={`px-4 py-1.5 rounded-full border text-sm font-medium transition-all ${difficulty === level ? 'border-purple-500 bg-purple-50 text-purple-700' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+            <Button onClick={() => loadChallenge(difficulty)} className="mx-auto px-8" disabled={loading}>
+              {loading ? 'Generating Problem...' : 'Start Challenge'}
+            </Button>
+          </div>
+        </Card>
+      ) : (
+        <div className="grid lg:grid-cols-2 gap-6 items-start">
+          <Card>
+            <div className="flex justify-between items-start gap-3 mb-4">
+              <h2 className="text-xl font-bold text-gray-900">{challenge.title}</h2>
+              <span className="px-3 py-1 bg-purple-100 text-purple-700 text-xs rounded-full font-bold uppercase whitespace-nowrap">{session.difficulty}</span>
+            </div>
+            <p className="text-gray-700 text-sm whitespace-pre-wrap leading-relaxed mb-4">{challenge.description}</p>
+            <pre className="p-3 rounded-lg bg-gray-50 border border-gray-100 text-xs font-mono text-gray-700 overflow-x-auto mb-4">{challenge.signature}</pre>
+            {challenge.constraints.length > 0 && (
+              <div className="mb-4">
+                <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Constraints</h4>
+                <ul className="list-disc list-inside text-sm text-gray-600 space-y-1">
+                  {challenge.constraints.map((c, i) => <li key={i}>{c}</li>)}
+                </ul>
+              </div>
+            )}
+            <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
+              Tests {results && `· ${countPassed(results)} / ${ran} passed`}
+            </h4>
+            <div className="space-y-2">
+              {challenge.tests.map((test, i) => (
+                <TestResultRow key={i} index={i} test={test} result={results?.[i] || null} functionName={challenge.functionName} />
+              ))}
+            </div>
+          </Card>
+
+          <div className="space-y-4">
+            {session.solvedAt && (
+              <div className="p-4 rounded-xl bg-emerald-50 border border-emerald-200 text-emerald-800 text-sm flex items-center gap-2">
+                <CheckCircle className="w-5 h-5" /> Solved on {new Date(session.solvedAt).toLocaleString()} after {session.runs} run{session.runs === 1 ? '' : 's'}.
+              </div>
+            )}
+            <div className="bg-gray-900 rounded-xl overflow-hidden shadow-sm">
+              <div className="flex justify-between items-center px-4 py-2 border-b border-gray-800">
+                <div className="flex gap-1">
+                  {CODE_LANGUAGES.map(({ id, label }) => (
+                    <button
+                      key={id}
+                      onClick={() => setSession(switchLanguage(session, id))}
+                      className={`px-3 py-1 rounded text-xs font-medium ${session.language === id ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => { if (window.confirm("Reset the editor to the starter code?")) setSession({ ...session, code: challenge.starterCode[session.language] }); }}
+                  className="text-xs text-gray-400 hover:text-white"
+                >
+                  Reset code
+                </button>
+              </div>
+              <textarea
+                value={session.code}
+                onChange={e => setSession({ ...session, code: e.target.value })}
+                onKeyDown={handleEditorKeyDown}
+                spellCheck={false}
+                rows={20}
+                className="w-full p-4 bg-gray-900 text-gray-100 font-mono text-sm leading-relaxed outline-none resize-y"
+              />
+            </div>
+            {compileError && <pre className="p-3 rounded-lg bg-red-50 border border-red-200 text-xs text-red-700 whitespace-pre-wrap">{compileError}</pre>}
+            <div className="flex justify-end gap-3">
+              <Button variant="secondary" onClick={() => runTests(false)} disabled={!!running}>
+                <Play className="w-4 h-4" /> {running === 'run' ? 'Running...' : 'Run Examples'}
+              </Button>
+              <Button onClick={() => runTests(true)} disabled={!!running}>
+                {running === 'submit' ? 'Running All Tests...' : 'Submit'}
+              </Button>
+            </div>
+            {session.results && (
+              <Button variant="outline" onClick={requestReview} disabled={requestingReview || !!running} className="w-full">
+                {requestingReview ? 'Reviewing your code...' : session.review ? 'Review Again' : 'Get Interviewer Feedback'}
+              </Button>
+            )}
+            {session.review && (
+              <>
+                <DataSourceBanner status={statusOf(session.review)} onRetry={requestReview} retrying={requestingReview} retryLabel="Review Again" />
+                <CodeReviewPanel review={session.review.data} outdated={session.review.data.reviewedCode !== session.code} onUseSolution={applyReferenceSolution} />
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- System Design ---
+const CANVAS_WIDTH = 720;
+const CANVAS_HEIGHT = 400;
+const MAX_NODE_LABEL = 18;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Box-and-arrow editor: drag boxes to move them, double-click to rename, "Connect" draws an arrow between two boxes
+const DiagramEditor: React.FC<{ diagram: DesignDiagram; onChange: (d: DesignDiagram) => void }> = ({ diagram, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  const [connectFrom, setConnectFrom] = useState<string | null>(null);
+  // Drag positions stay local until the pointer is released, so a drag is one workspace update
+  const [drag, setDrag] = useState<{ id: string; dx: number; dy: number; draft: DesignDiagram } | null>(null);
+  const shown = drag?.draft || diagram;
+
+  const toCanvas = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: ((e.clientX - rect.left) * CANVAS_WIDTH) / rect.width, y: ((e.clientY - rect.top) * CANVAS_HEIGHT) / rect.height };
+  };
+
+  const handleAddBox = () => {
+    const label = window.prompt('Component name (e.g. "API Gateway", "Postgres", "Redis cache")');
+    if (!label?.trim()) return;
+    const offset = (diagram.nodes.length % 8) * 24;
+    onChange(addNode(diagram, label.trim(), 24 + offset, 24 + offset));
+  };
+
+  const handleRename = (node: DiagramNode) => {
+    const label = window.prompt('Rename component', node.label);
+    if (label?.trim()) onChange(updateNode(diagram, node.id, { label: label.trim() }));
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    onChange(diagram.nodes.some(n => n.id === selected) ? removeNode(diagram, selected) : removeEdge(diagram, selected));
+    setSelected(null);
+  };
+
+  const handleNodePointerDown = (e: React.PointerEvent, node: DiagramNode) => {
+    e.stopPropagation();
+    if (connecting) {
+      if (!connectFrom) {
+        setConnectFrom(node.id);
+        return;
+      }
+      const label = window.prompt('Label for the arrow (optional, e.g. "REST", "publishes events")', '');
+      if (label !== null) onChange(addEdge(diagram, connectFrom, node.id, label.trim()));
+      setConnecting(false);
+      setConnectFrom(null);
+      return;
+    }
+    setSelected(node.id);
+    const point = toCanvas(e);
+    svgRef.current?.setPointerCapture(e.pointerId);
+    setDrag({ id: node.id, dx: point.x - node.x, dy: point.y - node.y, draft: diagram });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const point = toCanvas(e);
+    setDrag({
+      ...drag,
+      draft: updateNode(drag.draft, drag.id, {
+        x: Math.round(clamp(point.x - drag.dx, 0, CANVAS_WIDTH - NODE_WIDTH)),
+        y: Math.round(clamp(point.y - drag.dy, 0, CANVAS_HEIGHT - NODE_HEIGHT)),
+      }),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (drag && drag.draft !== diagram) onChange(drag.draft);
+    setDrag(null);
+  };
+
+  const nodeById = (id: string) => shown.nodes.find(n => n.id === id);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <Button variant="secondary" onClick={handleAddBox} className="text-sm py-1.5"><Plus className="w-4 h-4" /> Add Box</Button>
+        <Button
+          variant={connecting ? 'outline' : 'secondary'}
+          onClick={() => { setConnecting(c => !c); setConnectFrom(null); }}
+          disabled={diagram.nodes.length < 2}
+          className="text-sm py-1.5"
+        >
+          <ArrowRight className="w-4 h-4" /> {connecting ? 'Cancel Arrow' : 'Connect'}
+        </Button>
+        <Button variant="secondary" onClick={handleDelete} disabled={!selected} className="text-sm py-1.5"><Trash2 className="w-4 h-4" /> Delete</Button>
+        <span className="text-xs text-gray-400">
+          {connecting
+            ? connectFrom ? 'Now click the box the arrow points to.' : 'Click the box the arrow starts from.'
+            : 'Drag boxes to arrange them, double-click to rename.'}
+        </span>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+        className="w-full rounded-xl border border-gray-200 bg-gray-50 touch-none select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerDown={() => setSelected(null)}
+      >
+        <defs>
+          <marker id="design-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280" />
+          </marker>
+        </defs>
+        {shown.edges.map(edge => {
+          const from = nodeById(edge.from);
+          const to = nodeById(edge.to);
+          if (!from || !to) return null;
+          const { x1, y1, x2, y2 } = edgeEndpoints(from, to);
+          const isSelected = selected === edge.id;
+          return (
+            <g key={edge.id} onPointerDown={e => { e.stopPropagation(); setSelected(edge.id); }} className="cursor-pointer">
+              {/* Wide invisible stroke makes thin arrows easy to click */}
+              <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="transparent" strokeWidth={12} />
+              <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={isSelected ? '#9333ea' : '#6b7280'} strokeWidth={isSelected ? 2.5 : 1.5} markerEnd="url(#design-arrow)" />
+              {edge.label && (
+                <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 6} textAnchor="middle" className="fill-gray-500" fontSize={11}>{edge.label}</text>
+              )}
+            </g>
+          );
+        })}
+        {shown.nodes.map(node => {
+          const isSelected = selected === node.id || connectFrom === node.id;
+          return (
+            <g
+              key={node.id}
+              transform={`translate(${node.x}, ${node.y})`}
+              onPointerDown={e => handleNodePointerDown(e, node)}
+              onDoubleClick={() => handleRename(node)}
+              className={connecting ? 'cursor-crosshair' : 'cursor-move'}
+            >
+              <title>{node.label}</title>
+              <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={8} fill="white" stroke={isSelected ? '#9333ea' : '#d1d5db'} strokeWidth={isSelected ? 2 : 1} />
+              <text x={NODE_WIDTH / 2} y={NODE_HEIGHT / 2 + 4} textAnchor="middle" className="fill-gray-800" fontSize={13} fontWeight={600}>
+                {node.label.length > MAX_NODE_LABEL ? `${node.label.slice(0, MAX_NODE_LABEL - 1)}…` : node.label}
+              </text>
+            </g>
+          );
+        })}
+        {shown.nodes.length === 0 && (
+          <text x={CANVAS_WIDTH / 2} y={CANVAS_HEIGHT / 2} textAnchor="middle" className="fill-gray-400" fontSize={14}>
+            Add boxes for clients, services, databases and caches, then connect them.
+          </text>
+        )}
+      </svg>
+    </div>
+  );
+};
+
+const DesignGradePanel: React.FC<{ grade: DesignGrade }> = ({ grade }) => (
+  <Card title="Interviewer Feedback">
+    <div className="flex items-start gap-4 mb-5">
+      <div className="text-center">
+        <p className="text-4xl font-black text-purple-600">{designScore(grade) ?? '–'}</p>
+        <p className="text-[10px] text-gray-400 uppercase tracking-wider">Rubric score</p>
+      </div>
+      <p className="text-sm text-gray-700 leading-relaxed">{grade.summary}</p>
+    </div>
+    <div className="mb-5">
+      <RubricList criteria={DESIGN_SECTIONS} rubric={grade.rubric} />
+    </div>
+    <div className="grid md:grid-cols-2 gap-4 mb-5 text-sm">
+      {grade.strengths.length > 0 && (
+        <div>
+          <h4 className="text-xs font-bold text-emerald-600 uppercase tracking-wider mb-2">Strengths</h4>
+          <ul className="list-disc list-inside text-gray-600 space-y-1">{grade.strengths.map((s, i) => <li key={i}>{s}</li>)}</ul>
+        </div>
+      )}
+      {grade.gaps.length > 0 && (
+        <div>
+          <h4 className="text-xs font-bold text-amber-600 uppercase tracking-wider mb-2">Gaps</h4>
+          <ul className="list-disc list-inside text-gray-600 space-y-1">{grade.gaps.map((g, i) => <li key={i}>{g}</li>)}</ul>
+        </div>
+      )}
+    </div>
+    <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Follow-up questions</h4>
+    <ol className="list-decimal list-inside text-sm text-gray-800 space-y-2">
+      {grade.followUpQuestions.map((q, i) => <li key={i}>{q}</li>)}
+    </ol>
+  </Card>
+);
+
+const SystemDesignPage = () => {
+  const { targetRole, completeStep, trackArtifacts, updateTrackArtifacts } = useApp();
+  const [loading, setLoading] = useState(false);
+  const [grading, setGrading] = useState(false);
+
+  const session = trackArtifacts.systemDesign;
+
+  const setSession = (systemDesign: SystemDesignSession | undefined) => updateTrackArtifacts(a => ({ ...a, systemDesign }));
+
+  const loadPrompt = () => {
+    if (!targetRole) return;
+    setLoading(true);
+    generateDesignPrompt(targetRole.title)
+      .then(result => setSession(createDesignSession(result)))
+      .finally(() => setLoading(false));
+  };
+
+  const submitForGrading = () => {
+    if (!session) return;
+    setGrading(true);
+    gradeSystemDesign(session)
+      .then(grade => {
+        updateTrackArtifacts(a => ({
+          ...a,
+          systemDesign: a.systemDesign?.id === session.id ? { ...a.systemDesign, grade } : a.systemDesign
+        }));
+        completeStep(AppStep.SYSTEM_DESIGN);
+      })
+      .finally(() => setGrading(false));
+  };
+
+  if (!targetRole) return <div>Select a role first.</div>;
+
+  const answered = session ? DESIGN_SECTIONS.filter(s => session.answers[s.id].trim()).length : 0;
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex justify-between items-center bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-1">System Design</h1>
+          <p className="text-gray-500 text-sm">Whiteboard practice for <span className="font-semibold text-purple-600">{targetRole.title}</span>.</p>
+        </div>
+        {session && (
+          <Button variant="secondary" onClick={() => { if (window.confirm("Start a new design question? Your current answer will be discarded.")) loadPrompt(); }} disabled={loading || grading}>
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} /> New Question
+          </Button>
+        )}
+      </div>
+
+      {session && <DataSourceBanner status={session.status} onRetry={loadPrompt} retrying={loading} retryLabel="Generate Again" />}
+
+      {!session ? (
+        <Card className="min-h-[320px] flex flex-col justify-center">
+          <div className="text-center">
+            <div className="w-20 h-20 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-6">
+              <Network className="w-10 h-10 text-purple-600" />
+            </div>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Practice a system design round</h3>
+            <p className="text-gray-500 mb-6 max-w-md mx-auto">
+              {isSeniorRole(targetRole.title)
+                ? 'Senior roles almost always include a design interview. '
+                : 'Design rounds are most common for senior roles, but the practice helps at any level. '}
+              Answer in structured sections, sketch the architecture, and get graded against an interviewer's rubric.
+            </p>
+            <Button onClick={loadPrompt} className="mx-auto px-8" disabled={loading}>
+              {loading ? 'Preparing Question...' : 'Start Design Question'}
+            </Button>
+          </div>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <h2 className="text-xl font-bold text-gray-900 mb-2">{session.prompt.title}</h2>
+            <p className="text-gray-700 text-sm leading-relaxed mb-4 whitespace-pre-wrap">{session.prompt.scenario}</p>
+            <div className="grid md:grid-cols-2 gap-4 text-sm">
+              {session.prompt.constraints.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Constraints</h4>
+                  <ul className="list-disc list-inside text-gray-600 space-y-1">{session.prompt.constraints.map((c, i) => <li key={i}>{c}</li>)}</ul>
+                </div>
+              )}
+              {session.prompt.focusAreas.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">The interviewer will probe</h4>
+                  <ul className="list-disc list-inside text-gray-600 space-y-1">{session.prompt.focusAreas.map((f, i) => <li key={i}>{f}</li>)}</ul>
+                </div>
+              )}
+            </div>
+          </Card>
+
+          <Card title="Your Design">
+            <div className="space-y-5">
+              {DESIGN_SECTIONS.map(({ id, label, hint }) => (
+                <div key={id}>
+                  <label className="block text-sm font-semibold text-gray-800 mb-1">{label}</label>
+                  <textarea
+                    rows={4}
+                    value={session.answers[id]}
+                    onChange={e => setSession({ ...session, answers: { ...session.answers, [id]: e.target.value } })}
+                    placeholder={hint}
+                    className="w-full p-3 rounded-lg border border-gray-200 focus:border-purple-400 focus:ring-2 focus:ring-purple-100 outline-none text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          <Card title="Architecture Diagram">
+            <DiagramEditor diagram={session.diagram} onChange={diagram => setSession({ ...session, diagram })} />
+          </Card>
+
+          <div className="flex justify-end items-center gap-3">
+            <span className="text-sm text-gray-400">{answered} of {DESIGN_SECTIONS.length} sections answered</span>
+            <Button onClick={submitForGrading} disabled={grading || answered === 0}>
+              {grading ? 'Grading...' : session.grade ? 'Grade Again' : 'Submit for Grading'}
+            </Button>
+          </div>
+
+          {session.grade && (
+            <>
+              <DataSourceBanner status={statusOf(session.grade)} onRetry={submitForGrading} retrying={grading} retryLabel="Grade Again" />
+              <DesignGradePanel grade={session.grade.data} />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+// --- BEHAVIORAL COACH (STAR) ---
+const LENGTH_VERDICTS: Record<StarFeedback['lengthVerdict'], { label: string; className: string }> = {
+  short: { label: 'Too short', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  good: { label: 'Good length', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  long: { label: 'Too long', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+};
+
+const StarFeedbackPanel: React.FC<{ feedback: StarFeedback; outdated: boolean; onUseRewrite: (text: string) => void }> = ({ feedback, outdated, onUseRewrite }) => {
+  const verdict = LENGTH_VERDICTS[feedback.lengthVerdict];
+  return (
+    <Card title="STAR Feedback">
+      {outdated && <p className="mb-4 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">Your answer changed after this feedback. Ask again to score your edits.</p>}
+      <div className="flex items-start gap-4 mb-5">
+        <div className="text-center">
+          <p className="text-4xl font-black text-purple-600">{starScore(feedback) ?? '–'}</p>
+          <p className="text-[10px] text-gray-400 uppercase tracking-wider">STAR score</p>
+        </div>
+        <div>
+          <span className={`inline-block mb-2 text-xs font-bold px-2 py-0.5 rounded border ${verdict.className}`}>
+            {verdict.label} · {feedback.wordCount} words
+          </span>
+          <p className="text-sm text-gray-700 leading-relaxed">{feedback.summary}</p>
+        </div>
+      </div>
+      <div className="mb-5">
+        <RubricList criteria={STAR_CRITERIA} rubric={feedback.rubric} />
+      </div>
+      {feedback.suggestedRewrite && (
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider">Suggested rewrite</h4>
+            <button onClick={() => onUseRewrite(feedback.suggestedRewrite)} className="text-xs font-medium text-purple-600 hover:text-purple-800">Use as my answer</button>
+          </div>
+          <p className="text-sm text-gray-800 leading-relaxed whitespace-pre-wrap bg-gray-50 border border-gray-100 rounded-lg p-4">{feedback.suggestedRewrite}</p>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+const BehavioralCoachPage = () => {
+  const { targetRole, resume, completeStep, trackArtifacts, updateTrackArtifacts, storyBank, updateStoryBank } = useApp();
+  const [loading, setLoading] = useState(false);
+  const [scoring, setScoring] = useState(false);
+  const [index, setIndex] = useState(0);
+
+  const practice = trackArtifacts.behavioralPractice;
+
+  // Async results and dictation only apply to the practice they were started for
+  const updatePractice = (id: string, update: (p: BehavioralPractice) => BehavioralPractice) =>
+    updateTrackArtifacts(a => ({
+      ...a,
+      behavioralPractice: a.behavioralPractice?.id === id ? update(a.behavioralPractice) : a.behavioralPractice
+    }));
+
+  const dictation = useDictation(text => {
+    if (!practice) return;
+    updatePractice(practice.id, p => setPracticeAnswer(p, index, [p.answers[index].trimEnd(), text].filter(Boolean).join(' ')));
+  });
+
+  const loadQuestions = () => {
+    if (!targetRole) return;
+    dictation.stop();
+    setLoading(true);
+    generateBehavioralQuestions(targetRole.title, resume?.summary || '')
+      .then(result => {
+        updateTrackArtifacts(a => ({ ...a, behavioralPractice: createBehavioralPractice(result) }));
+        setIndex(0);
+      })
+      .finally(() => setLoading(false));
+  };
+
+  if (!targetRole) return <div>Select a role first.</div>;
+
+  const question = practice?.questions[index];
+  const answer = practice?.answers[index] || '';
+  const feedback = practice?.feedback[index] || null;
+  const storyId = practice?.storyIds[index] || null;
+  const linkedStory = storyBank.find(s => s.id === storyId);
+  const outdated = !!feedback && feedback.data.scoredAnswer !== answer;
+
+  const selectQuestion = (i: number) => {
+    dictation.stop();
+    setIndex(i);
+  };
+
+  const getFeedback = () => {
+    if (!practice || !question) return;
+    const current = index;
+    setScoring(true);
+    scoreStarAnswer(question, answer, targetRole.title)
+      .then(result => {
+        updatePractice(practice.id, p => setPracticeFeedback(p, current, result));
+        completeStep(AppStep.BEHAVIORAL);
+      })
+      .finally(() => setScoring(false));
+  };
+
+  const saveToStoryBank = () => {
+    if (!practice || !question) return;
+    const title = window.prompt("Give this story a short title:", linkedStory?.title || question.competency);
+    if (!title?.trim()) return;
+    const { stories, id } = saveStory(storyBank, {
+      id: storyId,
+      title: title.trim(),
+      competency: linkedStory?.competency || question.competency,
+      question: question.question,
+      answer,
+      score: feedback && !outdated ? starScore(feedback.data) : null,
+      role: targetRole.title,
+    });
+    updateStoryBank(() => stories);
+    updatePractice(practice.id, p => setPracticeStory(p, index, id));
+  };
+
+  const reuseStory = (story: BehavioralStory) => {
+    if (!practice) return;
+    if (answer.trim() && !window.confirm(`Replace your current answer with "${story.title}"?`)) return;
+    updatePractice(practice.id, p => setPracticeStory(setPracticeAnswer(p, index, story.answer), index, story.id));
+  };
+
+  const deleteStory = (story: BehavioralStory) => {
+    if (!window.confirm(`Delete "${story.title}" from your story bank?`)) return;
+    updateStoryBank(stories => removeStory(stories, story.id));
+  };
+
+  const words = countWords(answer);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex justify-between items-center bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-1">Behavioral Coach</h1>
+          <p className="text-gray-500 text-sm">Written STAR practice for <span className="font-semibold text-purple-600">{targetRole.title}</span>.</p>
+        </div>
+        {practice && (
+          <Button variant="secondary" onClick={() => { if (window.confirm("Get new questions? Answers you have not saved to the story bank will be discarded.")) loadQuestions(); }} disabled={loading || scoring}>
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} /> New Questions
+          </Button>
+        )}
+      </div>
+
+      {practice && <DataSourceBanner status={practice.status} onRetry={loadQuestions} retrying={loading} retryLabel="Generate Again" />}
+
+      {!practice || !question ? (
+        <Card className="min-h-[320px] flex flex-col justify-center">
+          <div className="text-center">
+            <div className="w-20 h-20 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-6">
+              <MessageSquare className="w-10 h-10 text-purple-600" />
+            </div>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Practice behavioral answers</h3>
+            <p className="text-gray-500 mb-6 max-w-md mx-auto">
+              Get questions tailored to your background, write or dictate your answers, and get them scored on the STAR method:
+              Situation, Task, Action and Result. Save your best answers to a story bank you can reuse for any role.
+            </p>
+            <Button onClick={loadQuestions} className="mx-auto px-8" disabled={loading}>
+              {loading ? 'Preparing Questions...' : 'Start Practice'}
+            </Button>
+          </div>
+        </Card>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {practice.questions.map((q, i) => (
+              <button
+                key={i}
+                onClick={() => selectQuestion(i)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium border flex items-center gap-1.5 ${i === index ? 'bg-purple-600 text-white border-purple-600' : 'bg-white text-gray-600 border-gray-200 hover:border-purple-300'}`}
+              >
+                {practice.feedback[i] && <CheckCircle className="w-3.5 h-3.5" />} {i + 1}. {q.competency}
+              </button>
+            ))}
+          </div>
+
+          <Card>
+            <span className="text-xs font-bold text-purple-600 uppercase tracking-wider">{question.competency}</span>
+            <h2 className="text-xl font-bold text-gray-900 mt-1 mb-2">{question.question}</h2>
+            {question.lookingFor && <p className="text-sm text-gray-500 mb-4"><span className="font-medium text-gray-700">What they look for:</span> {question.lookingFor}</p>}
+
+            <textarea
+              rows={10}
+              value={answer}
+              onChange={e => updatePractice(practice.id, p => setPracticeAnswer(p, index, e.target.value))}
+              placeholder="Situation: where were you and what was at stake? Task: what were you responsible for? Action: what did you do? Result: what changed, and what did you learn?"
+              className="w-full p-3 rounded-lg border border-gray-200 focus:border-purple-400 focus:ring-2 focus:ring-purple-100 outline-none text-sm leading-relaxed"
+            />
+            <div className="flex flex-wrap justify-between items-center gap-3 mt-3">
+              <span className={`text-xs ${words > 0 && lengthVerdict(words) !== 'good' ? 'text-amber-600' : 'text-gray-400'}`}>
+                {words} words · aim for {MIN_ANSWER_WORDS}–{MAX_ANSWER_WORDS}
+                {linkedStory && <> · saved as <span className="font-medium text-gray-600">{linkedStory.title}</span></>}
+              </span>
+              <div className="flex gap-2">
+                {dictation.supported && (
+                  <Button variant="secondary" onClick={dictation.listening ? dictation.stop : dictation.start}>
+                    <Mic className={`w-4 h-4 ${dictation.listening ? 'text-red-500 animate-pulse' : ''}`} /> {dictation.listening ? 'Stop Dictation' : 'Dictate'}
+                  </Button>
+                )}
+                <Button variant="secondary" onClick={saveToStoryBank} disabled={!answer.trim()}>
+                  <Save className="w-4 h-4" /> {linkedStory ? 'Update Story' : 'Save to Story Bank'}
+                </Button>
+                <Button onClick={getFeedback} disabled={scoring || !answer.trim()}>
+                  {scoring ? 'Scoring...' : feedback ? 'Score Again' : 'Get Feedback'}
+                </Button>
+              </div>
+            </div>
+          </Card>
+
+          {feedback && (
+            <>
+              <DataSourceBanner status={statusOf(feedback)} onRetry={getFeedback} retrying={scoring} retryLabel="Score Again" />
+              <StarFeedbackPanel
+                feedback={feedback.data}
+                outdated={outdated}
+                onUseRewrite={text => updatePractice(practice.id, p => setPracticeAnswer(p, index, text))}
+              />
+            </>
+          )}
+
+          <Card title={`Story Bank (${storyBank.length})`}>
+            {storyBank.length === 0 ? (
+              <p className="text-sm text-gray-500">Saved answers appear here and are shared by all your target roles. A few strong stories can cover most behavioral questions.</p>
+            ) : (
+              <div className="space-y-3 max-h-[420px] overflow-y-auto">
+                {rankStoriesFor(storyBank, question.competency).map(story => (
+                  <div key={story.id} className={`p-4 rounded-lg border ${story.id === storyId ? 'border-purple-300 bg-purple-50' : 'border-gray-100'}`}>
+                    <div className="flex justify-between items-start gap-3">
+                      <div className="min-w-0">
+                        <p className="font-semibold text-gray-800">{story.title}</p>
+                        <p className="text-xs text-gray-400">
+                          {story.competency}{story.score !== null && ` · score ${story.score}`} · used for {story.roles.join(', ')}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {story.id !== storyId && (
+                          <button onClick={() => reuseStory(story)} className="text-xs font-medium text-purple-600 hover:text-purple-800">Use for this question</button>
+                        )}
+                        <button onClick={() => deleteStory(story)} className="text-gray-300 hover:text-red-500" title="Delete story"><Trash2 className="w-4 h-4" /></button>
+                      </div>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-2 line-clamp-3">{story.answer}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        </>
+      )}
     </div>
   );
 };
 
 const AptitudePage = () => {
-  const { targetRole, completeStep } = useApp();
+  const { targetRole, completeStep, trackArtifacts, updateTrackArtifacts } = useApp();
   const navigate = useNavigate();
-  const [aptitudeRes, setAptitudeRes] = useState<LearningResource[]>([]);
-  const [jobs, setJobs] = useState<JobListing[]>([]);
+  const aptitudeRes = trackArtifacts.aptitudeResources?.data || [];
+  const jobs = trackArtifacts.jobs?.data || [];
+  const aptitudeStatus = trackArtifacts.aptitudeResources ? statusOf(trackArtifacts.aptitudeResources) : null;
+  const jobsStatus = trackArtifacts.jobs ? statusOf(trackArtifacts.jobs) : null;
   const [loading, setLoading] = useState(false);
 
+  const loadAll = () => {
+    setLoading(true);
+    Promise.all([
+      generateAptitudePrep(),
+      searchJobs(targetRole?.title || 'Software Engineer')
+    ]).then(([aptitudeResources, jobs]) => {
+      updateTrackArtifacts(a => ({ ...a, aptitudeResources, jobs }));
+    }).finally(() => setLoading(false));
+  };
+
   useEffect(() => {
-    if (aptitudeRes.length === 0) {
-      setLoading(true);
-      Promise.all([
-        generateAptitudePrep(),
-        searchJobs(targetRole?.title || 'Software Engineer')
-      ]).then(([res, jobs]) => {
-        setAptitudeRes(res);
-        setJobs(jobs);
-      }).finally(() => setLoading(false));
-    }
+    if (aptitudeRes.length === 0) loadAll();
   }, [targetRole]);
 
   const handleFinish = () => {
@@ -612,6 +2795,7 @@ const AptitudePage = () => {
              <div className="p-2 bg-pink-100 rounded-lg"><Brain className="w-5 h-5 text-pink-600"/></div>
              <h2 className="text-xl font-bold text-gray-800">Aptitude Prep</h2>
           </div>
+          <DataSourceBanner status={aptitudeStatus} onRetry={loadAll} retrying={loading} />
           
           {loading ? <div className="text-gray-400 animate-pulse">Loading resources...</div> : (
             <div className="space-y-4">
@@ -630,6 +2814,7 @@ const AptitudePage = () => {
              <div className="p-2 bg-purple-100 rounded-lg"><Briefcase className="w-5 h-5 text-purple-600"/></div>
              <h2 className="text-xl font-bold text-gray-800">Live Job Openings</h2>
           </div>
+          <DataSourceBanner status={jobsStatus} onRetry={loadAll} retrying={loading} />
 
           {loading ? <div className="text-gray-400 animate-pulse">Searching jobs...</div> : (
             <div className="space-y-4">
@@ -650,34 +2835,59 @@ const AptitudePage = () => {
   );
 };
 
+const MOCK_EXAM_DEFAULTS: ExamTiming = { totalSeconds: 20 * 60, perQuestionSeconds: 120, maxPauses: 1 };
+
 const FullMockPage = () => {
-  const { targetRole, completeStep } = useApp();
+  const { targetRole, completeStep, trackArtifacts, updateTrackArtifacts } = useApp();
   const navigate = useNavigate();
-  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
-  const [current, setCurrent] = useState(0);
   const [loading, setLoading] = useState(false);
-  const [finished, setFinished] = useState(false);
-
-  useEffect(() => {
-    if (questions.length === 0 && targetRole) {
-      setLoading(true);
-      generateFullMockTest(targetRole.title)
-        .then(setQuestions)
-        .finally(() => setLoading(false));
-    }
-  }, [targetRole]);
+  const [reviewing, setReviewing] = useState<QuizAttempt | null>(null);
+  const [timing, setTiming] = useState<ExamTiming | null>(MOCK_EXAM_DEFAULTS);
+
+  const session = trackArtifacts.mockTest;
+  const history = trackArtifacts.mockHistory || [];
+  const questions = session?.questions || [];
+  const questionsStatus = session?.status || null;
+  const current = session?.currentIndex || 0;
+  const finished = session?.finished || false;
+  // The result is graded against the pass mark in force when the test was finished
+  const result = finished ? history.find(a => a.id === session!.id) || toQuizAttempt(session!) : null;
+
+  const setSession = (mockTest: QuizSession | undefined) => updateTrackArtifacts(a => ({ ...a, mockTest }));
+
+  const loadTest = (examTiming: ExamTiming | null = session?.timing || null) => {
+    if (!targetRole) return;
+    setLoading(true);
+    setReviewing(null);
+    generateFullMockTest(targetRole.title)
+      .then(generated => setSession(createQuizSession(generated, 'Medium', examTiming || undefined)))
+      .finally(() => setLoading(false));
+  };
 
-  const handleAnswer = () => {
-    if (current < questions.length - 1) {
-      setCurrent(c => c + 1);
-    } else {
-      setFinished(true);
+  const applySession = (next: QuizSession) => {
+    if (next.finished) {
+      const attempt = { ...toQuizAttempt(next), passThreshold: loadPassThreshold() };
+      updateTrackArtifacts(a => ({
+        ...a,
+        mockTest: next,
+        mockHistory: addQuizAttempt(a.mockHistory, attempt),
+        reviewDeck: addMissedQuestions(a.reviewDeck, attempt, 'mock')
+      }));
       completeStep(AppStep.FULL_MOCK);
+    } else {
+      setSession(next);
     }
   };
 
+  const now = useExamTimer(session, applySession);
+  const { grading, submit } = useAnswerSubmission(session, applySession);
+
   if (!targetRole) return <div>Select Role</div>;
 
+  const percent = result ? scorePercent(result) : 0;
+  const threshold = result?.passThreshold ?? loadPassThreshold();
+  const passed = percent >= threshold;
+
   return (
     <div className="max-w-3xl mx-auto space-y-8">
       <div className="text-center py-6">
@@ -685,53 +2895,468 @@ const FullMockPage = () => {
         <p className="text-gray-500">Technical • Aptitude • Behavioral</p>
       </div>
 
+      {!reviewing && <DataSourceBanner status={questionsStatus} onRetry={() => loadTest()} retrying={loading} retryLabel="Regenerate Test" />}
+
       <Card className="min-h-[400px] flex flex-col justify-center">
          {loading ? (
            <div className="py-12 text-center text-gray-400">Generating comprehensive test suite...</div>
-         ) : finished ? (
+         ) : reviewing ? (
+           <QuizReview attempt={reviewing} onClose={() => setReviewing(null)} />
+         ) : result ? (
            <div className="text-center py-8">
-             <div className="w-24 h-24 bg-emerald-100 rounded-full flex items-center justify-center mx-auto mb-6">
-               <CheckCircle className="w-12 h-12 text-emerald-600" />
+             <div className={`w-24 h-24 rounded-full flex items-center justify-center mx-auto mb-6 ${passed ? 'bg-emerald-100' : 'bg-amber-100'}`}>
+               {passed ? <CheckCircle className="w-12 h-12 text-emerald-600" /> : <AlertTriangle className="w-12 h-12 text-amber-600" />}
              </div>
-             <h3 className="text-2xl font-bold text-gray-900 mb-4">You are Ready!</h3>
-             <p className="text-gray-500 mb-8 max-w-md mx-auto">You have completed the preparation roadmap. It's time for the final interview.</p>
-             <Button onClick={() => navigate('/interview')} className="mx-auto px-8 py-3" variant="success">
-               Start AI Video Interview <ChevronRight className="w-5 h-5" />
-             </Button>
+             <div className="text-5xl font-black text-transparent bg-clip-text bg-gradient-to-r from-purple-600 to-pink-600 mb-2 py-2">{percent}%</div>
+             <h3 className="text-2xl font-bold text-gray-900 mb-2">{passed ? 'You are Ready!' : 'Not Quite Ready Yet'}</h3>
+             <p className="text-gray-500 mb-6 max-w-md mx-auto">
+               {passed
+                 ? `You cleared the ${threshold}% pass mark. It's time for the final interview.`
+                 : `The pass mark is ${threshold}%. Review your answers and retake the test before the interview.`}
+             </p>
+
+             <div className="max-w-sm mx-auto space-y-3 mb-8 text-left">
+               {scoreByCategory(result).map(({ category, correct, total }) => (
+                 <div key={category}>
+                   <div className="flex justify-between text-sm font-medium text-gray-700 mb-1">
+                     <span>{category}</span>
+                     <span>{correct} / {total}</span>
+                   </div>
+                   <div className="w-full bg-gray-100 h-2 rounded-full overflow-hidden">
+                     <div className={`h-full ${correct / total >= threshold / 100 ? 'bg-emerald-500' : 'bg-amber-500'}`} style={{ width: `${(correct / total) * 100}%` }}></div>
+                   </div>
+                 </div>
+               ))}
+             </div>
+
+             <div className="flex flex-wrap justify-center gap-3">
+               <Button onClick={() => setReviewing(result)} variant="outline">Review Answers</Button>
+               <Button onClick={() => setSession(undefined)} variant="secondary">Retake Test</Button>
+               <Button onClick={() => navigate('/interview')} variant={passed ? 'success' : 'secondary'}>
+                 {passed ? 'Start AI Video Interview' : 'Go to Interview Anyway'} <ChevronRight className="w-5 h-5" />
+               </Button>
+             </div>
+           </div>
+         ) : !session ? (
+           <div className="text-center">
+             <div className="w-20 h-20 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-6">
+               <CheckCircle className="w-10 h-10 text-purple-600" />
+             </div>
+             <h3 className="text-xl font-semibold text-gray-900 mb-2">Final Readiness Check</h3>
+             <p className="text-gray-500 mb-6 max-w-md mx-auto">A mixed test of technical, aptitude and behavioral questions, graded against your pass mark.</p>
+             <ExamModeSetup timing={timing} defaults={MOCK_EXAM_DEFAULTS} onChange={setTiming} />
+             <Button onClick={() => loadTest(timing)} className="mx-auto px-8">Start Mock Test</Button>
            </div>
+         ) : session.pausedAt ? (
+           <PausedNotice onResume={() => setSession(resumeSession(session))} />
          ) : questions.length > 0 ? (
            <div>
+              <ExamStatusBar session={session} now={now} onPause={() => setSession(pauseSession(session))} onResume={() => setSession(resumeSession(session))} />
               <div className="flex justify-between items-center mb-8">
                 <span className="text-sm font-bold text-gray-400 uppercase tracking-wider">Question {current + 1}/{questions.length}</span>
                 <span className="px-3 py-1 bg-purple-100 text-purple-700 text-xs rounded-full font-bold uppercase">{questions[current].category}</span>
               </div>
               <h3 className="text-xl font-bold text-gray-900 mb-8 leading-snug">{questions[current].question}</h3>
-              <div className="space-y-3">
-                 {questions[current].options.map((opt, i) => (
-                   <button key={i} onClick={handleAnswer} className="w-full text-left p-4 rounded-xl bg-gray-50 hover:bg-white border border-gray-200 hover:border-purple-400 hover:shadow-md transition-all text-gray-700 font-medium">
-                     {opt}
-                   </button>
-                 ))}
-              </div>
+              <QuestionInput key={`${session.id}:${current}`} question={questions[current]} onAnswer={submit} disabled={grading} />
            </div>
          ) : null}
       </Card>
+
+      {history.length > 0 && <QuizHistoryList history={history} onReview={setReviewing} />}
+    </div>
+  );
+};
+
+const InterviewScorecardPanel: React.FC<{ scorecard: InterviewScorecard }> = ({ scorecard }) => (
+  <div>
+    <div className="flex items-start gap-4 mb-5">
+      <div className="text-center">
+        <p className="text-4xl font-black text-purple-600">{interviewScore(scorecard) ?? '–'}</p>
+        <p className="text-[10px] text-gray-400 uppercase tracking-wider">Overall</p>
+      </div>
+      <p className="text-sm text-gray-700 leading-relaxed">{scorecard.summary}</p>
+    </div>
+    <div className="grid md:grid-cols-2 gap-6 mb-5">
+      <RubricList criteria={INTERVIEW_CRITERIA} rubric={scorecard.rubric} />
+      {scorecard.improvements.length > 0 && (
+        <div>
+          <h4 className="text-xs font-bold text-amber-600 uppercase tracking-wider mb-2">Top improvements</h4>
+          <ol className="list-decimal list-inside text-sm text-gray-700 space-y-2">
+            {scorecard.improvements.map((item, i) => <li key={i}>{item}</li>)}
+          </ol>
+        </div>
+      )}
+    </div>
+    {scorecard.answerNotes.length > 0 && (
+      <>
+        <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Answer by answer</h4>
+        <div className="space-y-3">
+          {scorecard.answerNotes.map((note, i) => (
+            <div key={i} className="p-3 rounded-lg border border-gray-100 text-sm">
+              <p className="font-semibold text-gray-800">{note.question}</p>
+              {note.answer && <p className="text-gray-500 italic mt-1">"{note.answer}"</p>}
+              <p className="text-gray-700 mt-2">{note.note}</p>
+            </div>
+          ))}
+        </div>
+      </>
+    )}
+  </div>
+);
+
+const TranscriptView: React.FC<{
+  transcript: InterviewTranscript;
+  startedAt: number;
+  emptyText?: string;
+  activeTurnId?: string;
+  onSelectTurn?: (turn: TranscriptTurn) => void;
+}> = ({ transcript, startedAt, emptyText, activeTurnId, onSelectTurn }) => {
+  const [query, setQuery] = useState('');
+  const searching = query.trim() !== '';
+  const items: TimelineItem[] = searching
+    ? searchTurns(transcript.turns, query).map(turn => ({ kind: 'turn', at: turn.startedAt, turn }))
+    : transcriptTimeline(transcript);
+
+  return (
+    <div>
+      {transcript.turns.length > 0 && (
+        <div className="relative mb-3">
+          <Search className="w-3.5 h-3.5 text-gray-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search transcript"
+            className="w-full pl-8 pr-3 py-1.5 rounded-lg border border-gray-200 focus:border-purple-400 outline-none text-xs"
+          />
+        </div>
+      )}
+      <div className="space-y-3 text-xs font-medium">
+        {items.length === 0 && <p className="text-gray-400 italic text-center py-6">{searching ? 'No matching lines.' : emptyText || 'No transcript.'}</p>}
+        {items.map(item => item.kind === 'event' ? (
+          <p key={item.event.id} className={`text-[10px] text-center italic ${item.event.level === 'error' ? 'text-red-500' : 'text-gray-400'}`}>
+            {item.event.message} · {new Date(item.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+          </p>
+        ) : (
+          <div key={item.turn.id} className="flex flex-col gap-1 animate-fade-in">
+            <div className="flex items-center gap-2 text-[10px] uppercase text-gray-400">
+              <span className={`font-bold ${item.turn.speaker === 'candidate' ? 'text-purple-600' : 'text-gray-600'}`}>{SPEAKER_LABELS[item.turn.speaker]}</span>
+              <span title={new Date(item.turn.startedAt).toLocaleTimeString()}>{formatElapsed(item.turn.startedAt - startedAt)}</span>
+              {item.turn.interrupted && <span className="normal-case text-amber-600">interrupted</span>}
+            </div>
+            <div
+              onClick={onSelectTurn && (() => onSelectTurn(item.turn))}
+              className={`p-3 rounded-lg border text-gray-700 ${item.turn.speaker === 'candidate' ? 'bg-purple-50 border-purple-100' : 'bg-gray-50 border-gray-100'} ${item.turn.id === activeTurnId ? 'ring-2 ring-purple-400' : ''} ${onSelectTurn ? 'cursor-pointer hover:border-purple-300' : ''}`}
+            >
+              {item.turn.text}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const downloadTranscript = (session: InterviewSession) => {
+  const url = URL.createObjectURL(new Blob([transcriptToText(session.transcript, session.startedAt)], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `interview-${new Date(session.startedAt).toISOString().slice(0, 16).replace(':', '-')}.txt`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const InterviewPlaybackPage = () => {
+  const { sessionId = '' } = useParams();
+  const { trackArtifacts, updateTrackArtifacts } = useApp();
+  const navigate = useNavigate();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [loadState, setLoadState] = useState<'loading' | 'ready' | 'missing'>('loading');
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const session = trackArtifacts.interviews?.find(s => s.id === sessionId);
+  const recording = session?.recording;
+
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+    loadRecording(sessionId)
+      .then(blob => {
+        if (cancelled) return;
+        if (!blob) {
+          setLoadState('missing');
+          return;
+        }
+        url = URL.createObjectURL(blob);
+        setVideoUrl(url);
+        setLoadState('ready');
+      })
+      .catch(() => { if (!cancelled) setLoadState('missing'); });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [sessionId]);
+
+  if (!session || !recording) {
+    return (
+      <div className="max-w-md mx-auto text-center py-20">
+        <p className="text-gray-500 mb-4">This interview has no recording.</p>
+        <Button variant="secondary" onClick={() => navigate('/interview')} className="mx-auto">Back to Interview</Button>
+      </div>
+    );
+  }
+
+  const seekTo = (turn: TranscriptTurn) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = turnOffsetSeconds(recording, turn);
+    video.play();
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm("Delete this recording? The transcript and scorecard are kept.")) return;
+    deleteRecording(session.id).then(() => {
+      updateTrackArtifacts(a => ({
+        ...a,
+        interviews: (a.interviews || []).map(s => (s.id === session.id ? { ...s, recording: undefined } : s))
+      }));
+      navigate('/interview');
+    });
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex justify-between items-center bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-1">Interview Recording</h1>
+          <p className="text-gray-500 text-sm">
+            {new Date(session.startedAt).toLocaleString()} · {formatElapsed(recording.durationMs)} · {formatMegabytes(recording.sizeBytes)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => navigate('/interview')}>Back</Button>
+          <Button variant="secondary" onClick={handleDelete}><Trash2 className="w-4 h-4" /> Delete Recording</Button>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-6">
+        <div className="md:col-span-2 bg-black rounded-2xl overflow-hidden aspect-video border-4 border-gray-900 shadow-2xl flex items-center justify-center">
+          {loadState === 'ready' && videoUrl ? (
+            <video
+              ref={videoRef}
+              src={videoUrl}
+              controls
+              playsInline
+              onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+              className="w-full h-full"
+            />
+          ) : (
+            <p className="text-sm text-white/60">{loadState === 'loading' ? 'Loading recording...' : 'The video is no longer stored in this browser.'}</p>
+          )}
+        </div>
+        <Card className="md:col-span-1 bg-white border-gray-200">
+          <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-4 border-b border-gray-100 pb-2">Transcript · click a line to jump to it</h3>
+          <div className="max-h-[420px] overflow-y-auto pr-2 custom-scrollbar">
+            <TranscriptView
+              transcript={session.transcript}
+              startedAt={recording.startedAt}
+              activeTurnId={turnAtTime(recording, session.transcript.turns, currentTime)?.id}
+              onSelectTurn={loadState === 'ready' ? seekTo : undefined}
+            />
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+const INTERVIEW_LENGTHS = [10, 15, 20, 30, 45];
+const INTERVIEW_QUESTION_COUNTS = [3, 4, 5, 6, 8, 10];
+
+const InterviewContextSummary: React.FC<{ context: InterviewContext }> = ({ context }) => (
+  <div className="mt-5 pt-4 border-t border-gray-100 text-sm">
+    <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">What the interviewer knows</h4>
+    <p className="text-gray-600 mb-3">
+      {context.resume ? `Your resume (${context.resume.skills.length} skills)` : 'No resume'}
+      {context.role.requiredSkills?.length ? `, the ${context.role.requiredSkills.length} skills the role requires` : ''}
+      {context.role.jobDescription ? ', the job description' : ''}
+      {' '}and your recent quiz results.
+    </p>
+    <div className="flex flex-wrap gap-2">
+      {context.skillGaps.map(skill => (
+        <span key={skill} className="px-2 py-0.5 rounded-full text-xs bg-amber-50 text-amber-700 border border-amber-200">Gap: {skill}</span>
+      ))}
+      {context.weakAreas.map(area => (
+        <span key={area.category} className="px-2 py-0.5 rounded-full text-xs bg-red-50 text-red-700 border border-red-200">
+          Weak: {area.category} ({area.correct}/{area.total})
+        </span>
+      ))}
+      {context.skillGaps.length === 0 && context.weakAreas.length === 0 && (
+        <span className="text-xs text-gray-400">No skill gaps or weak quiz areas found yet.</span>
+      )}
     </div>
+  </div>
+);
+
+const InterviewSetupPanel: React.FC<{ settings: InterviewerSettings; context: InterviewContext; onChange: (settings: InterviewerSettings) => void }> = ({ settings, context, onChange }) => {
+  const selectClass = "w-full px-2 py-1.5 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-purple-500 outline-none";
+  const set = <K extends keyof InterviewerSettings>(key: K, value: InterviewerSettings[K]) => onChange({ ...settings, [key]: value });
+
+  return (
+    <Card title="Interview Setup">
+      <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-2 mb-5">
+        {INTERVIEW_TYPES.map(type => (
+          <button
+            key={type.id}
+            onClick={() => set('type', type.id)}
+            className={`p-3 rounded-lg border text-left transition-all ${settings.type === type.id ? 'border-purple-500 bg-purple-50' : 'border-gray-200 hover:bg-gray-50'}`}
+          >
+            <p className={`text-sm font-semibold ${settings.type === type.id ? 'text-purple-700' : 'text-gray-800'}`}>{type.label}</p>
+            <p className="text-xs text-gray-500 mt-1">{type.description}</p>
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm text-gray-600">
+        <label className="space-y-1">
+          <span className="block font-medium">Strictness</span>
+          <select value={settings.strictness} onChange={e => set('strictness', e.target.value as InterviewerSettings['strictness'])} className={selectClass}>
+            {STRICTNESS_LEVELS.map(level => <option key={level.id} value={level.id}>{level.label}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block font-medium">Voice</span>
+          <select value={settings.voice} onChange={e => set('voice', e.target.value)} className={selectClass}>
+            {INTERVIEWER_VOICES.map(voice => <option key={voice.id} value={voice.id}>{voice.label}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block font-medium">Language</span>
+          <select value={settings.language} onChange={e => set('language', e.target.value)} className={selectClass}>
+            {INTERVIEW_LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.label}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block font-medium">Length</span>
+          <select value={settings.lengthMinutes} onChange={e => set('lengthMinutes', Number(e.target.value))} className={selectClass}>
+            {INTERVIEW_LENGTHS.map(minutes => <option key={minutes} value={minutes}>{minutes} minutes</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block font-medium">Questions</span>
+          <select value={settings.questionCount} onChange={e => set('questionCount', Number(e.target.value))} className={selectClass}>
+            {INTERVIEW_QUESTION_COUNTS.map(count => <option key={count} value={count}>{count} questions</option>)}
+          </select>
+        </label>
+      </div>
+      <InterviewContextSummary context={context} />
+    </Card>
   );
 };
 
 const InterviewPage = () => {
-  const { targetRole } = useApp();
+  const { targetRole, resume, toggleSettings, trackArtifacts, updateTrackArtifacts } = useApp();
+  const navigate = useNavigate();
   const videoRef = useRef<HTMLVideoElement>(null);
-  const { connect, disconnect, isConnected, isSpeaking, error, logs } = useLiveInterview(targetRole?.title || 'General', videoRef);
+  const [recordCall, setRecordCall] = useState(false);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  const [interviewerSettings, setInterviewerSettings] = useState(loadInterviewerSettings);
+  const { quizHistory, mockHistory } = trackArtifacts;
+  const interviewContext = useMemo(
+    () => buildInterviewContext(targetRole, resume, { quizHistory, mockHistory }),
+    [targetRole, resume, quizHistory, mockHistory]
+  );
+  const { connect, disconnect, isConnected, isSpeaking, isDemoMode, error, transcript, callId, recording } =
+    useLiveInterview(interviewContext, videoRef, { record: recordCall, settings: interviewerSettings });
+  const now = useClock(isConnected);
+
+  const changeInterviewerSettings = (settings: InterviewerSettings) => {
+    setInterviewerSettings(settings);
+    saveInterviewerSettings(settings);
+  };
+  // The session being recorded; the hook starts a fresh transcript on every call
+  const sessionRef = useRef<InterviewSession | null>(null);
+  // The interview that just ended, shown with its scorecard below the call
+  const [resultId, setResultId] = useState<string | null>(null);
+  const [analyzingId, setAnalyzingId] = useState<string | null>(null);
+  const interviews = trackArtifacts.interviews || [];
+  const result = interviews.find(s => s.id === resultId);
+  const pastInterviews = interviews.filter(s => s.id !== sessionRef.current?.id && s.id !== resultId && s.transcript.turns.length > 0);
+
+  const saveInterview = (session: InterviewSession) => updateTrackArtifacts(a => ({
+    ...a,
+    interviews: [...(a.interviews || []).filter(s => s.id !== session.id), session]
+  }));
+
+  const analyzeInterview = (session: InterviewSession) => {
+    setAnalyzingId(session.id);
+    scoreInterview(targetRole?.title || 'General', session)
+      .then(scorecard => updateTrackArtifacts(a => ({
+        ...a,
+        interviews: (a.interviews || []).map(s => (s.id === session.id ? { ...s, scorecard } : s))
+      })))
+      .finally(() => setAnalyzingId(null));
+  };
+
+  useEffect(() => {
+    if (isConnected && !sessionRef.current) {
+      // Sessions take the hook's call id, which their recording carries too
+      sessionRef.current = { id: callId || createId(), startedAt: Date.now(), settings: interviewerSettings, transcript };
+      setResultId(null);
+    } else if (!isConnected && sessionRef.current) {
+      // The hook flushes the last, unfinished turn as the call ends, in the same render as isConnected
+      const ended = { ...sessionRef.current, transcript, endedAt: Date.now() };
+      saveInterview(ended);
+      sessionRef.current = null;
+      setResultId(ended.id);
+      if (hasCandidateSpeech(ended.transcript)) analyzeInterview(ended);
+    }
+  }, [isConnected]);
+
+  useEffect(() => {
+    if (!sessionRef.current) return;
+    sessionRef.current = { ...sessionRef.current, transcript };
+    saveInterview(sessionRef.current);
+  }, [transcript]);
+
+  // The recording is finalised shortly after the call ends. A call that never connected has no interview, so its clip is dropped
+  useEffect(() => {
+    if (!recording || !interviews.some(s => s.id === recording.callId)) return;
+    const sessionId = recording.callId;
+    setRecordingError(null);
+    saveRecording(sessionId, recording.blob)
+      .then(() => updateTrackArtifacts(a => ({
+        ...a,
+        interviews: (a.interviews || []).map(s => (s.id === sessionId ? { ...s, recording: recording.recording } : s))
+      })))
+      .catch(e => setRecordingError(`The recording could not be saved: ${e instanceof Error ? e.message : String(e)}`));
+  }, [recording]);
 
   return (
     <div className="max-w-5xl mx-auto space-y-8">
       <div className="text-center py-6">
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">AI HR Video Interview</h1>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">AI Video Interview</h1>
         <p className="text-gray-500">Real-time simulation for {targetRole?.title}</p>
       </div>
 
+      {isDemoMode && (
+        <DataSourceBanner
+          status={{ source: 'demo', error: { category: 'offline', message: 'The live interview needs a Gemini API key. This session is a scripted simulation.' } }}
+          onRetry={toggleSettings}
+          retryLabel="Open Settings"
+        />
+      )}
+
+      {!isConnected && <InterviewSetupPanel settings={interviewerSettings} context={interviewContext} onChange={changeInterviewerSettings} />}
+
+      {isRecordingSupported() && (
+        <label className={`flex items-center justify-center gap-2 text-sm text-gray-600 ${isConnected ? 'opacity-50' : 'cursor-pointer'}`}>
+          <input type="checkbox" checked={recordCall} disabled={isConnected} onChange={e => setRecordCall(e.target.checked)} className="accent-purple-600" />
+          Record this interview to watch it back (the video stays in this browser)
+        </label>
+      )}
+
       <div className="grid md:grid-cols-3 gap-6">
         <div className="md:col-span-2 relative bg-black rounded-2xl overflow-hidden aspect-video border-4 border-gray-900 shadow-2xl">
            {/* User Camera Feed */}
@@ -740,6 +3365,7 @@ const InterviewPage = () => {
            <div className="absolute top-4 left-4 bg-black/60 px-3 py-1 rounded-full flex items-center gap-2 backdrop-blur-md border border-white/10">
               <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-emerald-500 animate-pulse' : 'bg-red-500'}`}></div>
               <span className="text-xs text-white font-medium tracking-wide">{isConnected ? 'LIVE CONNECTION' : 'OFFLINE'}</span>
+              {isConnected && recordCall && <span className="text-xs text-red-400 font-bold tracking-wide">● REC</span>}
            </div>
 
            {/* AI Avatar Overlay / Status */}
@@ -748,8 +3374,11 @@ const InterviewPage = () => {
                  <Mic className={`w-6 h-6 ${isSpeaking ? 'text-emerald-400' : 'text-white/70'}`} />
               </div>
               <div className="flex-1">
-                 <p className="text-sm font-bold text-white">AI Interviewer</p>
-                 <p className="text-xs text-white/60 font-medium">{isSpeaking ? 'Speaking...' : isConnected ? 'Listening...' : 'Ready to connect'}</p>
+                 <p className="text-sm font-bold text-white">AI Interviewer · {interviewTypeLabel(interviewerSettings.type)}</p>
+                 <p className="text-xs text-white/60 font-medium">
+                   {isSpeaking ? 'Speaking...' : isConnected ? 'Listening...' : 'Ready to connect'}
+                   {isConnected && sessionRef.current && ` · ${formatElapsed(now - sessionRef.current.startedAt)} of ${interviewerSettings.lengthMinutes}:00`}
+                 </p>
               </div>
               {!isConnected ? (
                 <Button onClick={connect} variant="success" className="text-sm py-2 px-6 rounded-full shadow-lg shadow-emerald-500/20">Start Interview</Button>
@@ -767,19 +3396,84 @@ const InterviewPage = () => {
             </div>
             <div className="flex-1 overflow-y-auto space-y-3 text-xs font-medium max-h-[400px] pr-2 custom-scrollbar">
               {error && <p className="text-red-500 bg-red-50 p-2 rounded">{error}</p>}
-              {logs.length === 0 && <p className="text-gray-400 italic text-center mt-10">Conversation will appear here...</p>}
-              {logs.map((log, i) => (
-                <div key={i} className="flex flex-col gap-1 animate-fade-in">
-                   <span className="text-gray-400 text-[10px] uppercase">{new Date().toLocaleTimeString([], {hour: '2-digit', minute:'2-digit', second:'2-digit'})}</span>
-                   <div className="bg-gray-50 p-3 rounded-lg border border-gray-100 text-gray-700">
-                     {log}
-                   </div>
-                </div>
-              ))}
+              <TranscriptView
+                transcript={transcript}
+                startedAt={sessionRef.current?.startedAt ?? result?.startedAt ?? transcript.events[0]?.at ?? Date.now()}
+                emptyText="Conversation will appear here..."
+              />
             </div>
           </Card>
         </div>
       </div>
+
+      {result && (
+        <Card title="Interview Results">
+          {result.scorecard ? (
+            <>
+              <DataSourceBanner status={statusOf(result.scorecard)} onRetry={() => analyzeInterview(result)} retrying={analyzingId === result.id} retryLabel="Analyze Again" />
+              <InterviewScorecardPanel scorecard={result.scorecard.data} />
+            </>
+          ) : analyzingId === result.id ? (
+            <p className="text-sm text-gray-500 flex items-center gap-2"><RefreshCw className="w-4 h-4 animate-spin" /> Analyzing your interview...</p>
+          ) : !hasCandidateSpeech(result.transcript) ? (
+            <p className="text-sm text-gray-500">None of your answers were captured in the transcript, so there is nothing to score.</p>
+          ) : (
+            <Button onClick={() => analyzeInterview(result)}>Analyze Interview</Button>
+          )}
+          {recordingError && <p className="mt-4 text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{recordingError}</p>}
+          <div className="mt-4 pt-4 border-t border-gray-100 flex justify-end gap-2">
+            {result.recording && (
+              <Button variant="secondary" onClick={() => navigate(`/interview/recordings/${result.id}`)} className="text-sm">
+                <Play className="w-4 h-4" /> Watch Recording
+              </Button>
+            )}
+            <Button variant="secondary" onClick={() => downloadTranscript(result)} className="text-sm">
+              <Download className="w-4 h-4" /> Download Transcript
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {pastInterviews.length > 0 && (
+        <Card title="Previous Interviews">
+          <div className="space-y-3">
+            {pastInterviews.slice().reverse().map(session => (
+              <details key={session.id} className="bg-gray-50 rounded-lg border border-gray-100 p-3">
+                <summary className="cursor-pointer text-sm font-semibold text-gray-700">
+                  {new Date(session.startedAt).toLocaleString()}
+                  {session.settings && <span className="ml-2 text-xs font-normal text-gray-500">{interviewTypeLabel(session.settings.type)}</span>}
+                  <span className="ml-2 text-xs font-normal text-gray-400">{session.transcript.turns.length} turns</span>
+                  {session.scorecard && <span className="ml-2 text-xs font-bold text-purple-600">Score {interviewScore(session.scorecard.data) ?? '–'}</span>}
+                </summary>
+                <div className="mt-3 bg-white p-3 rounded-lg border border-gray-100 max-h-[400px] overflow-y-auto">
+                  <TranscriptView transcript={session.transcript} startedAt={session.startedAt} />
+                </div>
+                <div className="mt-2 flex gap-4">
+                  {session.recording && (
+                    <button onClick={() => navigate(`/interview/recordings/${session.id}`)} className="text-xs font-medium text-purple-600 hover:text-purple-800 flex items-center gap-1">
+                      <Play className="w-3.5 h-3.5" /> Watch recording
+                    </button>
+                  )}
+                  <button onClick={() => downloadTranscript(session)} className="text-xs font-medium text-purple-600 hover:text-purple-800 flex items-center gap-1">
+                    <Download className="w-3.5 h-3.5" /> Download transcript
+                  </button>
+                </div>
+                <div className="mt-4">
+                  {session.scorecard ? (
+                    <div className="bg-white p-4 rounded-lg border border-gray-100">
+                      <InterviewScorecardPanel scorecard={session.scorecard.data} />
+                    </div>
+                  ) : hasCandidateSpeech(session.transcript) && (
+                    <Button variant="secondary" onClick={() => analyzeInterview(session)} disabled={analyzingId !== null}>
+                      {analyzingId === session.id ? 'Analyzing...' : 'Analyze Interview'}
+                    </Button>
+                  )}
+                </div>
+              </details>
+            ))}
+          </div>
+        </Card>
+      )}
     </div>
   );
 };
@@ -787,7 +3481,7 @@ const InterviewPage = () => {
 // --- Layout & Root ---
 
 const AppLayout = () => {
-  const { toggleSettings } = useApp();
+  const { toggleSettings, activeProfile } = useApp();
   const [showSettings, setShowSettings] = useState(false);
 
   // We wrap the context toggler to our local state
@@ -797,71 +3491,222 @@ const AppLayout = () => {
   return (
     <div className="flex h-screen bg-gray-50 text-gray-900 overflow-hidden font-sans selection:bg-purple-200">
       <Sidebar />
-      <main className="flex-1 overflow-y-auto p-4 lg:p-8 relative scroll-smooth">
+      {/* Keyed so page-local state (quizzes, resources) does not leak across profiles or tracks */}
+      <main key={`${activeProfile?.id}:${activeProfile?.activeTrackId}`} className="flex-1 overflow-y-auto p-4 lg:p-8 relative scroll-smooth">
         <Routes>
           <Route path="/" element={<ResumeUploadPage />} />
           <Route path="/analysis" element={<AnalysisPage />} />
+          <Route path="/job-match" element={<JobMatchPage />} />
           <Route path="/technical-prep" element={<TechnicalPrepPage />} />
           <Route path="/technical-quiz" element={<TechnicalQuizPage />} />
+          <Route path="/review" element={<ReviewPage />} />
+          <Route path="/coding" element={<CodingChallengePage />} />
+          <Route path="/system-design" element={<SystemDesignPage />} />
+          <Route path="/behavioral" element={<BehavioralCoachPage />} />
           <Route path="/aptitude" element={<AptitudePage />} />
           <Route path="/full-mock" element={<FullMockPage />} />
           <Route path="/interview" element={<InterviewPage />} />
+          <Route path="/interview/recordings/:sessionId" element={<InterviewPlaybackPage />} />
         </Routes>
       </main>
     </div>
   );
 };
 
-const App = () => {
-  const [resume, setResume] = useState<ParsedResume | null>(() => {
-    try {
-      const saved = localStorage.getItem('prepAiState');
-      return saved ? JSON.parse(saved).resume : null;
-    } catch(e) { return null; }
-  });
-  
-  const [targetRole, setTargetRole] = useState<SuggestedRole | null>(() => {
-    try {
-      const saved = localStorage.getItem('prepAiState');
-      return saved ? JSON.parse(saved).targetRole : null;
-    } catch(e) { return null; }
-  });
-
-  const [completedSteps, setCompletedSteps] = useState<AppStep[]>(() => {
-    try {
-      const saved = localStorage.getItem('prepAiState');
-      return saved ? JSON.parse(saved).completedSteps : [];
-    } catch(e) { return []; }
-  });
+const AUTOSAVE_DELAY_MS = 500;
 
+const App = () => {
+  // Null until the saved workspace has been read from IndexedDB
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveState, setSaveState] = useState<SaveState>({ status: 'idle' });
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const pendingSave = useRef<Workspace | null>(null);
+  // Recordings referenced by the last saved workspace
+  const savedRecordings = useRef<Set<string>>(new Set());
 
-  const completeStep = useCallback((step: AppStep) => {
-    setCompletedSteps(prev => Array.from(new Set([...prev, step])));
+  useEffect(() => {
+    loadWorkspace()
+      .then(loaded => {
+        savedRecordings.current = new Set(recordedSessionIds(loaded));
+        setWorkspace(loaded);
+      })
+      .catch(e => setLoadError(e instanceof Error ? e.message : String(e)));
   }, []);
 
-  const saveProgress = useCallback(() => {
+  // Deleting or resetting a profile or track, or replacing the workspace on import, drops its interviews.
+  // Their videos are removed once a workspace without them has been saved, so a failed save loses nothing.
+  const pruneRecordings = useCallback((saved: Workspace) => {
+    const kept = new Set(recordedSessionIds(saved));
+    savedRecordings.current.forEach(id => {
+      if (!kept.has(id)) deleteRecording(id).catch(e => console.warn("Failed to delete recording", e));
+    });
+    savedRecordings.current = kept;
+  }, []);
+
+  const flushSave = useCallback(async () => {
+    const next = pendingSave.current;
+    if (!next) return;
+    pendingSave.current = null;
+    setSaveState(prev => ({ ...prev, status: 'saving' }));
     try {
-        const state = { resume, targetRole, completedSteps };
-        localStorage.setItem('prepAiState', JSON.stringify(state));
-        alert("Progress saved successfully! You can resume later.");
+      const savedAt = await saveWorkspace(next);
+      setSaveState({ status: 'saved', savedAt });
+      pruneRecordings(next);
     } catch (e) {
-        alert("Failed to save progress. Storage might be full.");
+      console.warn("Failed to save workspace", e);
+      setSaveState(prev => ({ ...prev, status: 'error' }));
     }
-  }, [resume, targetRole, completedSteps]);
+  }, [pruneRecordings]);
+
+  // Autosave: every change is queued and written once edits pause
+  useEffect(() => {
+    if (!workspace) return;
+    pendingSave.current = workspace;
+    const timer = window.setTimeout(flushSave, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [workspace, flushSave]);
+
+  // Don't lose the last few edits when the tab is hidden or closed before the debounce fires
+  useEffect(() => {
+    const onHide = () => { if (document.visibilityState === 'hidden') flushSave(); };
+    document.addEventListener('visibilitychange', onHide);
+    window.addEventListener('pagehide', flushSave);
+    return () => {
+      document.removeEventListener('visibilitychange', onHide);
+      window.removeEventListener('pagehide', flushSave);
+    };
+  }, [flushSave]);
+
+  const updateWorkspace = useCallback((update: (w: Workspace) => Workspace) => {
+    setWorkspace(prev => (prev ? update(prev) : prev));
+  }, []);
+
+  // Setters a page may call after an await are bound to the profile and track it rendered with,
+  // so a result that arrives after a switch does not land in another candidate or role
+  const boundProfileId = workspace ? getActiveProfile(workspace).id : null;
+  const boundTrackId = workspace ? getActiveProfile(workspace).activeTrackId : null;
+
+  const updateBoundProfile = useCallback((update: (p: CandidateProfile) => CandidateProfile) => {
+    if (!boundProfileId) return;
+    updateWorkspace(prev => updateProfileFor(prev, boundProfileId, update));
+  }, [updateWorkspace, boundProfileId]);
+
+  const setResume = useCallback((r: ParsedResume) => {
+    updateBoundProfile(p => setProfileResume(p, r));
+  }, [updateBoundProfile]);
+
+  const updateResume = useCallback((update: (r: ParsedResume) => ParsedResume) => {
+    updateBoundProfile(p => (p.resume ? { ...p, resume: update(p.resume) } : p));
+  }, [updateBoundProfile]);
+
+  const setResumeStatus = useCallback((status: ServiceStatus | null) => {
+    updateBoundProfile(p => setProfileResumeStatus(p, status));
+  }, [updateBoundProfile]);
+
+  const setTargetRole = useCallback((role: SuggestedRole, steps: AppStep[] = []) => {
+    updateWorkspace(prev => updateActiveProfile(prev, p => steps.reduce((next, step) => completeProfileStep(next, step), selectRoleTrack(p, role))));
+  }, [updateWorkspace]);
+
+  const completeStep = useCallback((step: AppStep) => {
+    updateBoundProfile(p => completeProfileStep(p, step, boundTrackId));
+  }, [updateBoundProfile, boundTrackId]);
+
+  const updateArtifacts = useCallback((update: (a: TrackArtifacts) => TrackArtifacts) => {
+    if (!boundProfileId || !boundTrackId) return;
+    updateWorkspace(prev => updateTrackArtifactsFor(prev, boundProfileId, boundTrackId, update));
+  }, [updateWorkspace, boundProfileId, boundTrackId]);
+
+  const updateStoryBank = useCallback((update: (stories: BehavioralStory[]) => BehavioralStory[]) => {
+    updateBoundProfile(p => updateProfileStories(p, update));
+  }, [updateBoundProfile]);
+
+  const saveProgress = useCallback(() => {
+    if (workspace) pendingSave.current = workspace;
+    flushSave();
+  }, [workspace, flushSave]);
 
   const resetProgress = useCallback(() => {
-    localStorage.removeItem('prepAiState');
-    setResume(null);
-    setTargetRole(null);
-    setCompletedSteps([]);
+    updateWorkspace(prev => updateActiveProfile(prev, resetProfile));
     window.location.hash = '/';
-  }, []);
+  }, [updateWorkspace]);
+
+  const createNewProfile = useCallback((name: string) => {
+    const profile = createProfile(name);
+    updateWorkspace(prev => ({ profiles: [...prev.profiles, profile], activeProfileId: profile.id }));
+    window.location.hash = '/';
+  }, [updateWorkspace]);
+
+  const switchProfile = useCallback((profileId: string) => {
+    updateWorkspace(prev => ({ ...prev, activeProfileId: profileId }));
+    window.location.hash = '/';
+  }, [updateWorkspace]);
+
+  const renameProfile = useCallback((profileId: string, name: string) => {
+    updateWorkspace(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(p => (p.id === profileId ? { ...p, name, updatedAt: Date.now() } : p))
+    }));
+  }, [updateWorkspace]);
+
+  const deleteProfile = useCallback((profileId: string) => {
+    updateWorkspace(prev => removeProfile(prev, profileId));
+    window.location.hash = '/';
+  }, [updateWorkspace]);
+
+  const switchTrack = useCallback((trackId: string) => {
+    updateWorkspace(prev => updateActiveProfile(prev, p => ({ ...p, activeTrackId: trackId })));
+    window.location.hash = '/technical-prep';
+  }, [updateWorkspace]);
+
+  const deleteTrack = useCallback((trackId: string) => {
+    updateWorkspace(prev => updateActiveProfile(prev, p => removeTrack(p, trackId)));
+  }, [updateWorkspace]);
+
+  const importWorkspace = useCallback((incoming: Workspace, mode: ImportMode) => {
+    updateWorkspace(prev => (mode === 'replace' ? incoming : mergeWorkspaces(prev, incoming)));
+    window.location.hash = '/';
+  }, [updateWorkspace]);
 
   const toggleSettings = useCallback(() => setIsSettingsOpen(prev => !prev), []);
 
+  if (!workspace) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-gray-50 p-8">
+        {loadError ? (
+          <div className="max-w-md text-center">
+            <AlertTriangle className="w-10 h-10 text-amber-500 mx-auto mb-3" />
+            <p className="font-bold text-gray-800 mb-1">Your saved progress could not be opened</p>
+            <p className="text-sm text-gray-500">{loadError}</p>
+          </div>
+        ) : (
+          <div className="w-10 h-10 border-4 border-purple-200 border-t-purple-600 rounded-full animate-spin" />
+        )}
+      </div>
+    );
+  }
+
+  const activeProfile = getActiveProfile(workspace);
+  const activeTrack = getActiveTrack(activeProfile);
+
   return (
-    <AppContext.Provider value={{ resume, setResume, targetRole, setTargetRole, completedSteps, completeStep, saveProgress, resetProgress, toggleSettings }}>
+    <AppContext.Provider value={{
+      resume: activeProfile.resume,
+      setResume,
+      updateResume,
+      resumeStatus: activeProfile.resumeStatus,
+      setResumeStatus,
+      targetRole: activeTrack?.role || null,
+      setTargetRole,
+      completedSteps: getCompletedSteps(activeProfile),
+      completeStep,
+      trackArtifacts: activeTrack?.artifacts || {},
+      updateTrackArtifacts: updateArtifacts,
+      storyBank: activeProfile.storyBank || [],
+      updateStoryBank,
+      saveProgress, saveState, resetProgress, toggleSettings,
+      workspace, activeProfile, createNewProfile, switchProfile, renameProfile, deleteProfile, switchTrack, deleteTrack, importWorkspace
+    }}>
       <HashRouter>
         <AppLayout />
         <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+// Returns the current time, re-rendering every `intervalMs` while `active` (e.g. to drive a countdown)
+export const useClock = (active: boolean, intervalMs: number = 1000) => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    if (!active) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [active, intervalMs]);
+
+  return now;
+};
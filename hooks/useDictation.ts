@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Browser speech-to-text (Chrome, Edge and Safari); `supported` is false elsewhere so the UI can hide the button.
+// Each finished phrase is passed to `onText`; interim results are not reported.
+export const useDictation = (onText: (text: string) => void) => {
+  const Recognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+  const [listening, setListening] = useState(false);
+  const recognitionRef = useRef<any>(null);
+  const onTextRef = useRef(onText);
+  onTextRef.current = onText;
+
+  const stop = useCallback(() => {
+    recognitionRef.current?.stop();
+  }, []);
+
+  const start = useCallback(() => {
+    if (!Recognition || recognitionRef.current) return;
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = false;
+    recognition.lang = navigator.language || 'en-US';
+    recognition.onresult = (event: any) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        if (event.results[i].isFinal) onTextRef.current(event.results[i][0].transcript.trim());
+      }
+    };
+    recognition.onend = () => {
+      recognitionRef.current = null;
+      setListening(false);
+    };
+    recognition.onerror = () => recognition.stop();
+    recognitionRef.current = recognition;
+    recognition.start();
+    setListening(true);
+  }, [Recognition]);
+
+  useEffect(() => () => recognitionRef.current?.abort(), []);
+
+  return { supported: !!Recognition, listening, start, stop };
+};
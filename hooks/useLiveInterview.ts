@@ -1,5 +1,10 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { GoogleGenAI, LiveServerMessage, Modality, Blob } from '@google/genai';
+import { InterviewContext, InterviewTranscript, InterviewerSettings, TranscriptSpeaker } from '../types';
+import { addEvent, addTurn, emptyTranscript } from '../services/transcript';
+import { DEFAULT_INTERVIEWER_SETTINGS, buildInterviewerInstruction, demoInterviewQuestions } from '../services/interviewPersona';
+import { FinishedRecording, InterviewRecorder, isRecordingSupported, startRecorder } from '../services/interviewRecording';
+import { createId } from '../services/workspace';
 
 // --- Audio Utils (per Google GenAI Guidelines) ---
 
@@ -53,11 +58,28 @@ async function decodeAudioData(
   return buffer;
 }
 
-export const useLiveInterview = (role: string, videoRef: React.RefObject<HTMLVideoElement | null>) => {
+// A finished recording and the call it belongs to
+export interface CallRecording extends FinishedRecording {
+  callId: string;
+}
+
+export interface LiveInterviewOptions {
+  record?: boolean;
+  settings?: InterviewerSettings;
+}
+
+// `context` briefs the interviewer on the candidate and the job; see services/interviewContext
+export const useLiveInterview = (context: InterviewContext, videoRef: React.RefObject<HTMLVideoElement | null>, options: LiveInterviewOptions = {}) => {
+  const { record = false, settings = DEFAULT_INTERVIEWER_SETTINGS } = options;
   const [isConnected, setIsConnected] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [logs, setLogs] = useState<string[]>([]);
+  const [isDemoMode, setIsDemoMode] = useState(false);
+  const [transcript, setTranscript] = useState<InterviewTranscript>(emptyTranscript);
+  // Identifies the current call, so its recording cannot be mistaken for an earlier one
+  const [callId, setCallId] = useState<string | null>(null);
+  // Set once the recording of the last call has been finalised
+  const [recording, setRecording] = useState<CallRecording | null>(null);
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
@@ -65,16 +87,53 @@ export const useLiveInterview = (role: string, videoRef: React.RefObject<HTMLVid
   const nextStartTimeRef = useRef<number>(0);
   const videoIntervalRef = useRef<number | null>(null);
   const demoIntervalRef = useRef<number | null>(null);
+  const recorderRef = useRef<{ recorder: InterviewRecorder; callId: string } | null>(null);
+  const recordingMixRef = useRef<MediaStreamAudioDestinationNode | null>(null);
   
-  // Transcription state
-  const currentInputTranscription = useRef('');
-  const currentOutputTranscription = useRef('');
+  // Transcription state: text of the turn in progress and when its first words arrived
+  const currentInputTranscription = useRef({ text: '', startedAt: 0 });
+  const currentOutputTranscription = useRef({ text: '', startedAt: 0 });
+
+  const logEvent = (message: string, level: 'info' | 'error' = 'info') => setTranscript(prev => addEvent(prev, message, level));
+
+  const logTurn = (speaker: TranscriptSpeaker, text: string, startedAt: number = Date.now(), interrupted: boolean = false) =>
+    setTranscript(prev => addTurn(prev, { speaker, text, startedAt, endedAt: Date.now(), interrupted }));
 
-  const addLog = (msg: string) => setLogs(prev => [...prev, msg]);
+  const appendTranscription = (current: React.MutableRefObject<{ text: string; startedAt: number }>, text: string) => {
+    if (!current.current.text) current.current.startedAt = Date.now();
+    current.current.text += text;
+  };
+
+  const flushTranscription = (current: React.MutableRefObject<{ text: string; startedAt: number }>, speaker: TranscriptSpeaker, interrupted: boolean = false) => {
+    const { text, startedAt } = current.current;
+    if (text.trim()) logTurn(speaker, text.trim(), startedAt, interrupted);
+    current.current = { text: '', startedAt: 0 };
+  };
+
+  // A call can end mid-turn: keep whatever was transcribed before the next turnComplete
+  const flushPendingTurns = () => {
+    flushTranscription(currentInputTranscription, 'candidate');
+    flushTranscription(currentOutputTranscription, 'interviewer');
+  };
+
+  const stopRecording = () => {
+    if (!recorderRef.current) return;
+    const { recorder, callId: recordedCallId } = recorderRef.current;
+    recorder.stop().then(finished => setRecording({ ...finished, callId: recordedCallId }));
+    recorderRef.current = null;
+    recordingMixRef.current = null;
+  };
 
   const connect = useCallback(async () => {
     try {
       setError(null);
+      // Each call starts a fresh transcript; the page keeps earlier ones with their sessions
+      setTranscript(emptyTranscript());
+      setRecording(null);
+      const currentCallId = createId();
+      setCallId(currentCallId);
+      currentInputTranscription.current = { text: '', startedAt: 0 };
+      currentOutputTranscription.current = { text: '', startedAt: 0 };
       // --- SAFE API KEY RETRIEVAL ---
       let apiKey: string | null = null;
       
@@ -112,25 +171,39 @@ export const useLiveInterview = (role: string, videoRef: React.RefObject<HTMLVid
         }
       }
 
+      // Optional local recording: the camera plus the candidate's and the interviewer's voices mixed into one audio track
+      if (record) {
+        if (stream && isRecordingSupported()) {
+          const mix = audioContextRef.current.createMediaStreamDestination();
+          audioContextRef.current.createMediaStreamSource(stream).connect(mix);
+          recordingMixRef.current = mix;
+          recorderRef.current = {
+            recorder: startRecorder(new MediaStream([...stream.getVideoTracks(), ...mix.stream.getAudioTracks()])),
+            callId: currentCallId,
+          };
+          logEvent("Recording started");
+        } else {
+          logEvent(stream ? "This browser cannot record video, so the interview is not being recorded" : "No camera or microphone, so the interview is not being recorded", 'error');
+        }
+      }
+
       // --- DEMO / OFFLINE MODE CHECK ---
+      setIsDemoMode(!apiKey);
       if (!apiKey) {
         setIsConnected(true);
-        addLog("[DEMO MODE] No API Key detected. Starting simulated interview session.");
-        addLog("AI: Hello! Welcome to your interview simulation.");
+        logEvent("Demo mode: no API key detected. Starting a simulated interview session.");
+        logTurn('interviewer', "Hello! Welcome to your interview simulation.");
         
         let demoStep = 0;
         const demoScripts = [
-          `AI: I see you are applying for the ${role} position. Can you tell me a bit about yourself?`,
-          "AI: That's a great background. What specific technical challenges have you faced recently?",
-          "AI: Interesting approach. How do you handle conflict within a team setting?",
-          "AI: Thank you for sharing that. Do you have any questions for us about the company?"
+          ...demoInterviewQuestions(context, settings),
+          "Thank you for sharing that. Do you have any questions for us about the company?"
         ];
 
         // Simulate a conversation loop
         demoIntervalRef.current = window.setInterval(() => {
            if (demoStep < demoScripts.length) {
-              const msg = demoScripts[demoStep];
-              addLog(msg);
+              logTurn('interviewer', demoScripts[demoStep]);
               
               // Simulate "Speaking" indicator
               setIsSpeaking(true);
@@ -138,7 +211,7 @@ export const useLiveInterview = (role: string, videoRef: React.RefObject<HTMLVid
               
               demoStep++;
            } else {
-              addLog("AI: This concludes our demo interview session. Thank you!");
+              logTurn('interviewer', "This concludes our demo interview session. Thank you!");
               if (demoIntervalRef.current) clearInterval(demoIntervalRef.current);
            }
         }, 6000); 
@@ -168,7 +241,7 @@ export const useLiveInterview = (role: string, videoRef: React.RefObject<HTMLVid
         callbacks: {
           onopen: () => {
             setIsConnected(true);
-            addLog("Connected to Interviewer");
+            logEvent("Connected to interviewer");
             
             // 1. Stream Audio
             processor.onaudioprocess = (e) => {
@@ -201,21 +274,20 @@ export const useLiveInterview = (role: string, videoRef: React.RefObject<HTMLVid
           },
           onmessage: async (msg: LiveServerMessage) => {
             // Handle Transcription
-            if (msg.serverContent?.outputTranscription) {
-                currentOutputTranscription.current += msg.serverContent.outputTranscription.text;
-            } else if (msg.serverContent?.inputTranscription) {
-                currentInputTranscription.current += msg.serverContent.inputTranscription.text;
+            if (msg.serverContent?.outputTranscription?.text) {
+                appendTranscription(currentOutputTranscription, msg.serverContent.outputTranscription.text);
+            } else if (msg.serverContent?.inputTranscription?.text) {
+                appendTranscription(currentInputTranscription, msg.serverContent.inputTranscription.text);
+            }
+
+            // The candidate spoke over the interviewer: keep what was said so far, marked as cut off
+            if (msg.serverContent?.interrupted) {
+                flushTranscription(currentOutputTranscription, 'interviewer', true);
             }
 
             if (msg.serverContent?.turnComplete) {
-                if (currentInputTranscription.current) {
-                    addLog(`You: ${currentInputTranscription.current}`);
-                    currentInputTranscription.current = '';
-                }
-                if (currentOutputTranscription.current) {
-                    addLog(`AI: ${currentOutputTranscription.current}`);
-                    currentOutputTranscription.current = '';
-                }
+                flushTranscription(currentInputTranscription, 'candidate');
+                flushTranscription(currentOutputTranscription, 'interviewer');
             }
 
             // Handle Audio
@@ -235,6 +307,7 @@ export const useLiveInterview = (role: string, videoRef: React.RefObject<HTMLVid
               const source = audioCtx.createBufferSource();
               source.buffer = audioBuffer;
               source.connect(audioCtx.destination);
+              if (recordingMixRef.current) source.connect(recordingMixRef.current);
               
               const now = audioCtx.currentTime;
               const startTime = Math.max(now, nextStartTimeRef.current);
@@ -250,38 +323,45 @@ export const useLiveInterview = (role: string, videoRef: React.RefObject<HTMLVid
             }
           },
           onclose: () => {
+            flushPendingTurns();
+            stopRecording();
             setIsConnected(false);
-            addLog("Connection closed");
+            logEvent("Connection closed");
           },
           onerror: (err) => {
             console.error(err);
+            flushPendingTurns();
+            stopRecording();
             setError("Connection error occurred. Please check your network.");
+            logEvent("Connection error", 'error');
             setIsConnected(false);
           }
         },
         config: {
           responseModalities: [Modality.AUDIO],
+          // Native-audio models choose the spoken language themselves, so it is set in the system instruction
           speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Fenrir' } }
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voice } }
           },
           inputAudioTranscription: {},
           outputAudioTranscription: {},
-          systemInstruction: `You are a professional HR manager conducting a video interview for a candidate applying for the position of "${role}". 
-          You can see the candidate via their camera feed. 
-          Start by greeting them warmly and asking them to introduce themselves. 
-          Ask one question at a time. 
-          Focus on soft skills, past experience, and situational questions related to ${role}.`
+          systemInstruction: buildInterviewerInstruction(context, settings)
         }
       });
       
 
     } catch (err: any) {
+      stopRecording();
       setError(err.message);
       setIsConnected(false);
     }
-  }, [role, videoRef]);
+  }, [context, videoRef, record, settings]);
 
   const disconnect = useCallback(() => {
+    flushPendingTurns();
+    // Stop the recorder first, while its tracks are still live
+    stopRecording();
+
     if (inputSourceRef.current) inputSourceRef.current.disconnect();
     if (processorRef.current) processorRef.current.disconnect();
     if (audioContextRef.current && audioContextRef.current.state !== 'closed') audioContextRef.current.close();
@@ -305,5 +385,5 @@ export const useLiveInterview = (role: string, videoRef: React.RefObject<HTMLVid
     return () => disconnect();
   }, [disconnect]);
 
-  return { connect, disconnect, isConnected, isSpeaking, error, logs };
+  return { connect, disconnect, isConnected, isSpeaking, isDemoMode, error, transcript, callId, recording };
 };
\ No newline at end of file
@@ -0,0 +1,277 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { AIValidationError, Validator } from "./validation";
+
+export type AIProviderId = 'gemini' | 'openai-compatible';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+export interface AIProviderSettings {
+  provider: AIProviderId;
+  geminiApiKey: string;
+  openAICompatible: OpenAICompatibleConfig;
+}
+
+// A single structured-output call: prompt + response schema (Gemini Schema format)
+export interface StructuredRequest {
+  prompt: string;
+  schema: Schema;
+  attachment?: { mimeType: string; data: string }; // base64 payload
+}
+
+export interface WebSearchResult {
+  title: string;
+  uri: string;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  generateJson: (request: StructuredRequest) => Promise<unknown>;
+  // Optional: only providers with grounded search support implement this
+  searchWeb?: (prompt: string) => Promise<WebSearchResult[]>;
+}
+
+const MODEL_FLASH = 'gemini-2.5-flash';
+
+const STORAGE_KEYS = {
+  provider: 'ai_provider',
+  geminiKey: 'gemini_api_key',
+  openAICompatible: 'openai_compat_config',
+};
+
+export const DEFAULT_OPENAI_COMPATIBLE: OpenAICompatibleConfig = {
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.1',
+  apiKey: '',
+};
+
+// Helper to clean Markdown JSON code blocks
+export const cleanJson = (text: string): string => {
+  if (!text) return '{}';
+  return text.replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '').trim();
+};
+
+// --- SCHEMA HELPERS ---
+
+// Converts the Gemini Schema format into standard JSON Schema for OpenAI-compatible servers
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const json: Record<string, unknown> = {};
+  if (schema.type) json.type = schema.type.toLowerCase();
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) json.required = schema.required;
+  return json;
+};
+
+// --- GEMINI ADAPTER ---
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    generateJson: async ({ prompt, schema, attachment }) => {
+      const response = await ai.models.generateContent({
+        model: MODEL_FLASH,
+        contents: attachment
+          ? { parts: [{ inlineData: { mimeType: attachment.mimeType, data: attachment.data } }, { text: prompt }] }
+          : prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema
+        }
+      });
+      return JSON.parse(cleanJson(response.text || ''));
+    },
+    searchWeb: async (prompt) => {
+      const response = await ai.models.generateContent({
+        model: MODEL_FLASH,
+        contents: prompt,
+        config: {
+          tools: [{ googleSearch: {} }]
+        }
+      });
+
+      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      return chunks
+        .filter(c => c.web?.uri && c.web?.title)
+        .map(c => ({ title: c.web!.title!, uri: c.web!.uri! }));
+    }
+  };
+};
+
+// --- OPENAI-COMPATIBLE ADAPTER (Ollama, llama.cpp server, LM Studio, vLLM...) ---
+
+const decodeBase64Text = (data: string): string => {
+  const binary = atob(data);
+  const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: 'openai-compatible',
+    label: `OpenAI-compatible (${config.model})`,
+    generateJson: async ({ prompt, schema, attachment }) => {
+      // Many local servers only accept an object at the root, so arrays are wrapped and unwrapped
+      const wrapArray = schema.type === Type.ARRAY;
+      const jsonSchema = toJsonSchema(
+        wrapArray ? { type: Type.OBJECT, properties: { items: schema }, required: ['items'] } : schema
+      );
+
+      let userContent: unknown = prompt;
+      if (attachment) {
+        if (attachment.mimeType.startsWith('image/')) {
+          userContent = [
+            { type: 'image_url', image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` } },
+            { type: 'text', text: prompt }
+          ];
+        } else if (attachment.mimeType.startsWith('text/')) {
+          userContent = `${prompt}\n\n--- DOCUMENT ---\n${decodeBase64Text(attachment.data)}`;
+        } else {
+          throw new Error(`The OpenAI-compatible provider cannot read ${attachment.mimeType} attachments`);
+        }
+      }
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: config.model,
+          temperature: 0.4,
+          messages: [
+            {
+              role: 'system',
+              content: `Reply with a single JSON value that matches this JSON schema. Do not add prose or markdown.\n${JSON.stringify(jsonSchema)}`
+            },
+            { role: 'user', content: userContent }
+          ],
+          response_format: { type: 'json_schema', json_schema: { name: 'response', schema: jsonSchema } }
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI-compatible server responded with ${response.status} ${response.statusText}`);
+      }
+
+      const body = await response.json();
+      const parsed = JSON.parse(cleanJson(body.choices?.[0]?.message?.content || ''));
+      return wrapArray && !Array.isArray(parsed) ? parsed?.items : parsed;
+    }
+  };
+};
+
+// --- SETTINGS & ACTIVE PROVIDER ---
+
+export const loadProviderSettings = (): AIProviderSettings => {
+  let provider: AIProviderId = 'gemini';
+  let geminiApiKey = '';
+  let openAICompatible = DEFAULT_OPENAI_COMPATIBLE;
+
+  try {
+    if (localStorage.getItem(STORAGE_KEYS.provider) === 'openai-compatible') provider = 'openai-compatible';
+    geminiApiKey = localStorage.getItem(STORAGE_KEYS.geminiKey) || '';
+    const savedConfig = localStorage.getItem(STORAGE_KEYS.openAICompatible);
+    if (savedConfig) openAICompatible = { ...DEFAULT_OPENAI_COMPATIBLE, ...JSON.parse(savedConfig) };
+  } catch (e) {
+    console.warn("Could not read AI provider settings, using defaults.");
+  }
+
+  return { provider, geminiApiKey, openAICompatible };
+};
+
+const envApiKey = (): string => {
+  // Safe check for Node/Build process
+  if (typeof process !== 'undefined' && process.env && process.env.API_KEY) {
+    return process.env.API_KEY;
+  }
+  return '';
+};
+
+const buildProvider = (settings: AIProviderSettings): AIProvider | null => {
+  try {
+    if (settings.provider === 'openai-compatible') {
+      return settings.openAICompatible.baseUrl && settings.openAICompatible.model
+        ? createOpenAICompatibleProvider(settings.openAICompatible)
+        : null;
+    }
+    const key = settings.geminiApiKey || envApiKey();
+    return key ? createGeminiProvider(key) : null;
+  } catch (e) {
+    console.warn("AI provider not initialized (Offline/Demo Mode active)");
+    return null;
+  }
+};
+
+// Mutable instance to allow runtime updates
+let activeProvider: AIProvider | null = buildProvider(loadProviderSettings());
+
+export const getActiveProvider = (): AIProvider | null => activeProvider;
+
+export const saveProviderSettings = (settings: AIProviderSettings) => {
+  localStorage.setItem(STORAGE_KEYS.provider, settings.provider);
+  if (settings.geminiApiKey) {
+    localStorage.setItem(STORAGE_KEYS.geminiKey, settings.geminiApiKey);
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.geminiKey);
+  }
+  localStorage.setItem(STORAGE_KEYS.openAICompatible, JSON.stringify(settings.openAICompatible));
+  activeProvider = buildProvider(settings);
+};
+
+const MAX_ATTEMPTS = 2; // first try + one retry with the validation errors
+
+// Runs a structured request on the active provider, validating (and repairing) the reply.
+// An invalid reply is retried once with the problems appended to the prompt.
+export const generateStructured = async <T>(request: StructuredRequest, validate: Validator<T>, context: string): Promise<T> => {
+  if (!activeProvider) throw new Error("No AI provider configured");
+
+  let prompt = request.prompt;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let raw: unknown;
+    try {
+      raw = await activeProvider.generateJson({ ...request, prompt });
+    } catch (e) {
+      if (!(e instanceof SyntaxError)) throw e;
+      raw = undefined;
+    }
+
+    const result = raw === undefined
+      ? { value: null, errors: ['Response was not valid JSON'], repairs: [] }
+      : validate(raw);
+
+    if (result.value) {
+      if (result.repairs.length) console.info(`Repaired AI response in ${context}:`, result.repairs);
+      return result.value;
+    }
+
+    errors = result.errors;
+    console.warn(`Invalid AI response in ${context} (attempt ${attempt}/${MAX_ATTEMPTS}):`, errors);
+    prompt = `${request.prompt}
+
+      Your previous reply could not be used because of these problems:
+      ${errors.slice(0, 10).map(e => `- ${e}`).join('\n      ')}
+      Return corrected JSON that matches the schema exactly.
+    `;
+  }
+
+  throw new AIValidationError(context, errors);
+};
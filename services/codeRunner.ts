@@ -0,0 +1,71 @@
+import { ChallengeTestCase, CodeLanguage, CodingChallenge, TestResult } from "../types";
+import type { RunRequest, RunResponse } from "./codeRunner.worker";
+
+// --- CODE EXECUTION ---
+// Solutions run in a Web Worker, one fresh worker per test case, and are terminated when they overrun.
+
+export const TEST_TIMEOUT_MS = 3000;
+
+export class CompileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CompileError';
+  }
+}
+
+// Type annotations are stripped with sucrase, loaded lazily since only TypeScript solutions need it.
+// Nothing is type-checked: only syntax errors stop a run, type errors are left to the tests, as in most interview tools
+const compileTypeScript = async (code: string): Promise<string> => {
+  const { transform } = await import('sucrase');
+  try {
+    return transform(code, { transforms: ['typescript', 'imports'] }).code;
+  } catch (e) {
+    throw new CompileError(e instanceof Error ? e.message : String(e));
+  }
+};
+
+const runTest = (code: string, functionName: string, test: ChallengeTestCase, timeoutMs: number): Promise<TestResult> =>
+  new Promise(resolve => {
+    const worker = new Worker(new URL('./codeRunner.worker.ts', import.meta.url), { type: 'module' });
+    const started = performance.now();
+    let timer = 0;
+    const finish = (result: TestResult) => {
+      window.clearTimeout(timer);
+      worker.terminate();
+      resolve(result);
+    };
+
+    timer = window.setTimeout(() => finish({
+      passed: false,
+      timedOut: true,
+      error: `Timed out after ${timeoutMs / 1000}s`,
+      durationMs: timeoutMs,
+      logs: [],
+    }), timeoutMs);
+    worker.onmessage = (event: MessageEvent<RunResponse>) => finish(event.data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish({ passed: false, error: event.message || 'The test runner crashed', durationMs: performance.now() - started, logs: [] });
+    };
+
+    const request: RunRequest = { code, functionName, args: test.args, expected: test.expected };
+    worker.postMessage(request);
+  });
+
+// Runs the visible tests, plus the hidden ones when submitting. Results line up with challenge.tests;
+// tests that were not run are null. Throws CompileError when the code does not parse.
+export const runChallengeTests = async (
+  challenge: CodingChallenge,
+  code: string,
+  language: CodeLanguage,
+  includeHidden: boolean,
+  timeoutMs: number = TEST_TIMEOUT_MS
+): Promise<(TestResult | null)[]> => {
+  const compiled = language === 'typescript' ? await compileTypeScript(code) : code;
+  const results: (TestResult | null)[] = [];
+  // One at a time, so a slow solution is not also competing with its other tests for the CPU
+  for (const test of challenge.tests) {
+    results.push(test.hidden && !includeHidden ? null : await runTest(compiled, challenge.functionName, test, timeoutMs));
+  }
+  return results;
+};
@@ -0,0 +1,79 @@
+// --- SANDBOXED TEST RUNNER (Web Worker) ---
+// Runs one test case of a candidate's solution. services/codeRunner starts a fresh worker per test,
+// so a test cannot leak state into the next one and an endless loop is stopped by terminating it.
+
+export interface RunRequest {
+  code: string;          // plain JavaScript (TypeScript is compiled before it gets here)
+  functionName: string;
+  args: unknown[];
+  expected: unknown;
+}
+
+export interface RunResponse {
+  passed: boolean;
+  actual?: string;
+  error?: string;
+  durationMs: number;
+  logs: string[];
+}
+
+const MAX_LOG_LINES = 50;
+
+const reply = self.postMessage.bind(self) as (response: RunResponse) => void;
+
+// The solution only needs plain computation: take away network, storage and messaging before it runs
+['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'indexedDB', 'caches', 'BroadcastChannel', 'Worker', 'importScripts', 'postMessage']
+  .forEach(name => {
+    try {
+      Object.defineProperty(self, name, { value: undefined, configurable: false, writable: false });
+    } catch {
+      // Some globals are not configurable in every browser; the worker still has no DOM or page access
+    }
+  });
+
+// Object keys are sorted so {a, b} and {b, a} compare equal
+const canonical = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, canonical((value as Record<string, unknown>)[key])]));
+  }
+  return value;
+};
+
+const serialize = (value: unknown): string => {
+  if (value === undefined) return 'undefined';
+  try {
+    return JSON.stringify(canonical(value)) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const formatLogArg = (arg: unknown) => (typeof arg === 'string' ? arg : serialize(arg));
+
+self.onmessage = async (event: MessageEvent<RunRequest>) => {
+  const { code, functionName, args, expected } = event.data;
+  const logs: string[] = [];
+  const capture = (...parts: unknown[]) => {
+    if (logs.length < MAX_LOG_LINES) logs.push(parts.map(formatLogArg).join(' '));
+  };
+  const sandboxConsole = { log: capture, info: capture, warn: capture, error: capture, debug: capture };
+
+  const started = performance.now();
+  try {
+    const load = new Function(
+      'exports',
+      'console',
+      `${code}\nreturn typeof ${functionName} === 'function' ? ${functionName} : exports.${functionName};`
+    );
+    const solution = load({}, sandboxConsole);
+    if (typeof solution !== 'function') throw new Error(`Define a function named ${functionName}.`);
+
+    const actual = await solution(...args);
+    const actualJson = serialize(actual);
+    reply({ passed: actualJson === serialize(expected), actual: actualJson, durationMs: performance.now() - started, logs });
+  } catch (e) {
+    const error = e instanceof Error ? `${e.name}: ${e.message}` : String(e);
+    reply({ passed: false, error, durationMs: performance.now() - started, logs });
+  }
+};
@@ -0,0 +1,102 @@
+import { CodeLanguage, CodeReview, CodeReviewCriterion, CodingChallenge, CodingSession, QuizDifficulty, RubricRating, ServiceResult, TestResult } from "../types";
+import { createId } from "./workspace";
+
+// --- CODING CHALLENGE SESSIONS ---
+// Pure helpers; the session lives in track artifacts so the candidate's code survives reloads.
+
+export const createCodingSession = (
+  { data, ...status }: ServiceResult<CodingChallenge>,
+  difficulty: QuizDifficulty,
+  language: CodeLanguage = 'javascript'
+): CodingSession => ({
+  id: createId(),
+  difficulty,
+  challenge: data,
+  status,
+  language,
+  code: data.starterCode[language],
+  results: null,
+  runs: 0,
+  startedAt: Date.now(),
+});
+
+// Untouched starter code follows the language switch; edited code is kept as it is
+export const switchLanguage = (session: CodingSession, language: CodeLanguage): CodingSession => ({
+  ...session,
+  language,
+  code: session.code === session.challenge.starterCode[session.language] ? session.challenge.starterCode[language] : session.code,
+});
+
+export const allTestsPassed = (results: (TestResult | null)[]): boolean =>
+  results.length > 0 && results.every(r => r?.passed);
+
+export const countPassed = (results: (TestResult | null)[]): number => results.filter(r => r?.passed).length;
+
+// A submission runs the hidden tests too; the first one that passes everything marks the challenge solved
+export const recordRun = (session: CodingSession, results: (TestResult | null)[], submitted: boolean, now: number = Date.now()): CodingSession => ({
+  ...session,
+  results,
+  runs: session.runs + 1,
+  ...(submitted && !session.solvedAt && allTestsPassed(results) && { solvedAt: now }),
+});
+
+// --- Code review rubric ---
+
+export type CodeReviewRequest = Pick<CodingSession, 'challenge' | 'code' | 'language' | 'results'>;
+
+export const CODE_REVIEW_CRITERIA: { id: CodeReviewCriterion; label: string; weight: number }[] = [
+  { id: 'correctness', label: 'Correctness', weight: 0.4 },
+  { id: 'complexity', label: 'Time & space complexity', weight: 0.25 },
+  { id: 'readability', label: 'Readability', weight: 0.2 },
+  { id: 'edgeCases', label: 'Edge cases', weight: 0.15 },
+];
+
+// Weighted 0-100 score over the criteria that were rated; null when none were
+export const codeReviewScore = (review: Pick<CodeReview, 'rubric'>): number | null => {
+  const rated = CODE_REVIEW_CRITERIA.filter(c => review.rubric[c.id].score !== null);
+  if (rated.length === 0) return null;
+  const weight = rated.reduce((sum, c) => sum + c.weight, 0);
+  const points = rated.reduce((sum, c) => sum + c.weight * ((review.rubric[c.id].score! - 1) / 4), 0);
+  return Math.round((points / weight) * 100);
+};
+
+const ratingFromRatio = (ratio: number) => 1 + Math.round(ratio * 4);
+
+// Offline stand-in for the AI review: judges only what the last test run shows
+export const buildLocalCodeReview = (session: CodeReviewRequest, now: number = Date.now()): CodeReview => {
+  const { challenge } = session;
+  const results = session.results || [];
+  const ran = results.filter((r): r is TestResult => !!r);
+  const hiddenRan = results.filter((r, i) => r && challenge.tests[i].hidden);
+  const failures = results
+    .map((r, i) => ({ r, test: challenge.tests[i], index: i }))
+    .filter(({ r }) => r && !r.passed);
+
+  const notRated = (comment: string): RubricRating => ({ score: null, comment });
+  const correctness: RubricRating = ran.length
+    ? { score: ratingFromRatio(countPassed(ran) / ran.length), comment: `${countPassed(ran)} of ${ran.length} tests passed in the last run.` }
+    : notRated('Run the tests to get a correctness rating.');
+  const edgeCases: RubricRating = hiddenRan.length
+    ? { score: ratingFromRatio(countPassed(hiddenRan) / hiddenRan.length), comment: `${countPassed(hiddenRan)} of ${hiddenRan.length} hidden tests passed.` }
+    : notRated('Submit to run the hidden edge-case tests.');
+
+  return {
+    summary: 'Offline review based on your test results. Connect an AI provider for feedback on complexity, readability and a reference solution.',
+    rubric: {
+      correctness,
+      complexity: notRated('Needs an AI provider.'),
+      readability: notRated('Needs an AI provider.'),
+      edgeCases,
+    },
+    timeComplexity: 'Not assessed offline',
+    spaceComplexity: 'Not assessed offline',
+    missedEdgeCases: failures.map(({ r, test, index }) =>
+      test.hidden
+        ? `Hidden test ${index + 1} ${r!.timedOut ? 'timed out' : 'failed'}`
+        : `${challenge.functionName}(${test.args.map(a => JSON.stringify(a)).join(', ')}) returned ${r!.actual ?? r!.error}, expected ${JSON.stringify(test.expected)}`
+    ),
+    improvedSolution: '',
+    reviewedCode: session.code,
+    reviewedAt: now,
+  };
+};
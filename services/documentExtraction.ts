@@ -0,0 +1,80 @@
+// --- CLIENT-SIDE DOCUMENT TEXT EXTRACTION ---
+// Turns uploaded resumes into plain text in the browser so the user can review it
+// and we send a few KB of text to the model instead of the raw file.
+
+export type DocumentKind = 'pdf' | 'docx' | 'text' | 'image';
+
+export interface ExtractedDocument {
+  fileName: string;
+  kind: DocumentKind;
+  text: string; // empty for images and scanned PDFs without a text layer
+}
+
+// Value for the file input's `accept` attribute
+export const SUPPORTED_DOCUMENT_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain',
+  'text/markdown',
+  'image/png',
+  'image/jpeg',
+  '.pdf', '.docx', '.txt', '.md', '.markdown'
+].join(',');
+
+export const detectDocumentKind = (file: File): DocumentKind | null => {
+  const name = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || name.endsWith('.docx')) return 'docx';
+  if (file.type.startsWith('text/') || /\.(txt|md|markdown)$/.test(name)) return 'text';
+  if (file.type === 'image/png' || file.type === 'image/jpeg') return 'image';
+  return null;
+};
+
+const extractPdfText = async (data: ArrayBuffer): Promise<string> => {
+  // Loaded lazily: pdf.js is large and only needed for PDF uploads
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  const doc = await pdfjs.getDocument({ data }).promise;
+  const pages: string[] = [];
+  for (let i = 1; i <= doc.numPages; i++) {
+    const page = await doc.getPage(i);
+    const content = await page.getTextContent();
+    pages.push(
+      content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+    );
+  }
+  await doc.destroy();
+  return pages.join('\n\n');
+};
+
+const extractDocxText = async (data: ArrayBuffer): Promise<string> => {
+  const mammoth = (await import('mammoth')).default;
+  const result = await mammoth.extractRawText({ arrayBuffer: data });
+  return result.value;
+};
+
+// Collapses the whitespace noise PDF/DOCX extraction leaves behind
+export const normalizeExtractedText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export const extractDocumentText = async (file: File): Promise<ExtractedDocument> => {
+  const kind = detectDocumentKind(file);
+  if (!kind) {
+    throw new Error(`Unsupported file type: ${file.type || file.name}. Use PDF, DOCX, TXT, Markdown, PNG or JPG.`);
+  }
+
+  let text = '';
+  if (kind === 'pdf') text = await extractPdfText(await file.arrayBuffer());
+  if (kind === 'docx') text = await extractDocxText(await file.arrayBuffer());
+  if (kind === 'text') text = await file.text();
+
+  return { fileName: file.name, kind, text: normalizeExtractedText(text) };
+};
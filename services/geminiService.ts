@@ -1,50 +1,258 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ParsedResume, LearningResource, QuizQuestion, JobListing } from "../types";
+import { Schema, Type } from "@google/genai";
+import { ParsedResume, SuggestedRole, LearningResource, QuizQuestion, QuizDifficulty, QuestionKind, QuestionGrade, FreeTextQuestion, CodingChallenge, CodeReview, DesignPrompt, DesignGrade, SystemDesignSession, BehavioralQuestion, StarFeedback, InterviewScorecard, InterviewSession, JobListing, ServiceError, ServiceResult } from "../types";
+import { AIProvider, AIProviderSettings, generateStructured, getActiveProvider, loadProviderSettings, saveProviderSettings } from "./aiProvider";
+import { AIValidationError, QUESTION_KINDS, listOf, validateJobListing, validateLearningResource, validateParsedResume, validateCodeReview, validateCodingChallenge, validateBehavioralQuestion, validateDesignGrade, validateDesignPrompt, validateStarFeedback, validateInterviewScorecard, validateQuestionGrade, validateQuizQuestion, validateSuggestedRole } from "./validation";
+import { cacheKey, readCache, writeCache } from "./responseCache";
+import { BankQuery, addToQuestionBank, assembleFromBank, loadPreferBank, recentBankedQuestions } from "./questionBank";
+import { gradeFreeTextLocally } from "./questionGrading";
+import { CodeReviewRequest, buildLocalCodeReview } from "./codingSession";
+import { DESIGN_SECTIONS, buildLocalDesignGrade, describeDiagram } from "./systemDesign";
+import { STAR_CRITERIA, buildLocalStarFeedback, lengthVerdict } from "./starCoach";
+import { countWords } from "./rubric";
+import { INTERVIEW_CRITERIA, buildLocalInterviewScorecard } from "./interviewScorecard";
+import { transcriptToText } from "./transcript";
+import { interviewTypeLabel } from "./interviewPersona";
+import { buildHeuristicJobRole, buildHeuristicResume, suggestRolesForSkills } from "./resumeHeuristics";
 
-// Mutable instance to allow runtime updates
-let ai: GoogleGenAI | null = null;
-
-const MODEL_FLASH = 'gemini-2.5-flash';
-
-// --- INITIALIZATION LOGIC ---
-const initializeAI = () => {
+// --- PUBLIC CONFIGURATION API ---
+// Only touches the stored Gemini key; the selected provider is left as it is.
+export const updateApiKey = (key: string) => {
   try {
-    // 1. Try Local Storage (User entered key)
-    const localKey = localStorage.getItem('gemini_api_key');
-    if (localKey) {
-      ai = new GoogleGenAI({ apiKey: localKey });
-      return;
-    }
+    saveProviderSettings({ ...loadProviderSettings(), geminiApiKey: key });
+  } catch (e) {
+    console.error("Failed to initialize AI with provided key");
+  }
+};
 
-    // 2. Try Environment Variable (Safe check for Node/Build process)
-    if (typeof process !== 'undefined' && process.env && process.env.API_KEY) {
-      ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    }
+export const updateProviderSettings = (settings: AIProviderSettings) => {
+  try {
+    saveProviderSettings(settings);
   } catch (e) {
-    console.warn("Gemini API not initialized (Offline/Demo Mode active)");
+    console.error("Failed to initialize AI provider with the provided settings");
   }
 };
 
-// Run immediately
-initializeAI();
+export const hasApiKey = (): boolean => !!getActiveProvider();
 
-// --- PUBLIC CONFIGURATION API ---
-export const updateApiKey = (key: string) => {
-  if (!key) {
-    ai = null;
-    localStorage.removeItem('gemini_api_key');
-  } else {
-    try {
-      ai = new GoogleGenAI({ apiKey: key });
-      localStorage.setItem('gemini_api_key', key);
-    } catch (e) {
-      console.error("Failed to initialize AI with provided key");
+// --- RESPONSE SCHEMAS (shared by every provider) ---
+const SUGGESTED_ROLE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    matchScore: { type: Type.NUMBER },
+    reasoning: { type: Type.STRING },
+    requiredSkills: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['title', 'matchScore', 'reasoning']
+};
+
+const JOB_ROLE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    company: { type: Type.STRING },
+    matchScore: { type: Type.NUMBER },
+    reasoning: { type: Type.STRING },
+    requiredSkills: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['title', 'reasoning', 'requiredSkills']
+};
+
+const RESUME_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    fullName: { type: Type.STRING },
+    summary: { type: Type.STRING },
+    skills: { type: Type.ARRAY, items: { type: Type.STRING } },
+    yearsOfExperience: { type: Type.NUMBER },
+    suggestedRoles: { type: Type.ARRAY, items: SUGGESTED_ROLE_SCHEMA }
+  },
+  required: ['fullName', 'summary', 'skills', 'yearsOfExperience', 'suggestedRoles']
+};
+
+const resourceListSchema = (types: LearningResource['type'][]): Schema => ({
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      type: { type: Type.STRING, enum: types },
+      url: { type: Type.STRING },
+      description: { type: Type.STRING }
+    },
+    required: ['title', 'type', 'url', 'description']
+  }
+});
+
+// One flat object for every question kind; each kind fills only its own answer fields (see QUESTION_KIND_PROMPTS)
+const QUIZ_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      kind: { type: Type.STRING, enum: QUESTION_KINDS },
+      question: { type: Type.STRING },
+      options: { type: Type.ARRAY, items: { type: Type.STRING } },
+      correctAnswer: { type: Type.INTEGER },
+      correctAnswers: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+      isTrue: { type: Type.BOOLEAN },
+      acceptedAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+      items: { type: Type.ARRAY, items: { type: Type.STRING } },
+      modelAnswer: { type: Type.STRING },
+      keyPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+      explanation: { type: Type.STRING },
+      category: { type: Type.STRING, enum: ['Technical', 'Aptitude', 'Behavioral'] }
+    },
+    required: ['kind', 'question', 'explanation']
+  }
+};
+
+const GRADE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.INTEGER, description: "0-100" },
+    correct: { type: Type.BOOLEAN },
+    feedback: { type: Type.STRING }
+  },
+  required: ['score', 'correct', 'feedback']
+};
+
+const CODING_CHALLENGE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    functionName: { type: Type.STRING },
+    signature: { type: Type.STRING, description: "TypeScript function signature without a body" },
+    starterCodeJs: { type: Type.STRING },
+    starterCodeTs: { type: Type.STRING },
+    constraints: { type: Type.ARRAY, items: { type: Type.STRING } },
+    tests: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          args: { type: Type.STRING, description: "JSON array of the arguments" },
+          expected: { type: Type.STRING, description: "JSON of the expected return value" },
+          hidden: { type: Type.BOOLEAN }
+        },
+        required: ['args', 'expected', 'hidden']
+      }
     }
+  },
+  required: ['title', 'description', 'functionName', 'signature', 'tests']
+};
+
+const RUBRIC_RATING_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.INTEGER, description: "1-5" },
+    comment: { type: Type.STRING }
+  },
+  required: ['score', 'comment']
+};
+
+const CODE_REVIEW_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    rubric: {
+      type: Type.OBJECT,
+      properties: {
+        correctness: RUBRIC_RATING_SCHEMA,
+        complexity: RUBRIC_RATING_SCHEMA,
+        readability: RUBRIC_RATING_SCHEMA,
+        edgeCases: RUBRIC_RATING_SCHEMA
+      },
+      required: ['correctness', 'complexity', 'readability', 'edgeCases']
+    },
+    timeComplexity: { type: Type.STRING },
+    spaceComplexity: { type: Type.STRING },
+    missedEdgeCases: { type: Type.ARRAY, items: { type: Type.STRING } },
+    improvedSolution: { type: Type.STRING }
+  },
+  required: ['summary', 'rubric', 'timeComplexity', 'spaceComplexity', 'missedEdgeCases', 'improvedSolution']
+};
+
+const DESIGN_PROMPT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    scenario: { type: Type.STRING },
+    constraints: { type: Type.ARRAY, items: { type: Type.STRING } },
+    focusAreas: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['title', 'scenario', 'constraints', 'focusAreas']
+};
+
+const DESIGN_GRADE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    rubric: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(DESIGN_SECTIONS.map(s => [s.id, RUBRIC_RATING_SCHEMA])),
+      required: DESIGN_SECTIONS.map(s => s.id)
+    },
+    strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+    gaps: { type: Type.ARRAY, items: { type: Type.STRING } },
+    followUpQuestions: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['summary', 'rubric', 'strengths', 'gaps', 'followUpQuestions']
+};
+
+const BEHAVIORAL_QUESTIONS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      question: { type: Type.STRING },
+      competency: { type: Type.STRING },
+      lookingFor: { type: Type.STRING }
+    },
+    required: ['question', 'competency', 'lookingFor']
   }
 };
 
-export const hasApiKey = (): boolean => !!ai;
+const STAR_FEEDBACK_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    rubric: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(STAR_CRITERIA.map(c => [c.id, RUBRIC_RATING_SCHEMA])),
+      required: STAR_CRITERIA.map(c => c.id)
+    },
+    summary: { type: Type.STRING },
+    suggestedRewrite: { type: Type.STRING }
+  },
+  required: ['rubric', 'summary', 'suggestedRewrite']
+};
 
+const INTERVIEW_SCORECARD_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    rubric: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(INTERVIEW_CRITERIA.map(c => [c.id, RUBRIC_RATING_SCHEMA])),
+      required: INTERVIEW_CRITERIA.map(c => c.id)
+    },
+    answerNotes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          question: { type: Type.STRING },
+          answer: { type: Type.STRING },
+          note: { type: Type.STRING }
+        },
+        required: ['question', 'answer', 'note']
+      }
+    },
+    improvements: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['summary', 'rubric', 'answerNotes', 'improvements']
+};
 
 // --- MOCK DATA FOR OFFLINE/DEMO MODE ---
 const MOCK_RESUME: ParsedResume = {
@@ -109,6 +317,7 @@ const MOCK_RESOURCES: LearningResource[] = [
 
 const MOCK_QUIZ: QuizQuestion[] = [
   {
+    kind: "single",
     question: "In React, what is the main purpose of the `useEffect` cleanup function?",
     options: [
       "To clear the component's state",
@@ -121,6 +330,7 @@ const MOCK_QUIZ: QuizQuestion[] = [
     category: "Technical"
   },
   {
+    kind: "single",
     question: "Which HTTP status code indicates that the resource was not found on the server?",
     options: ["200 OK", "301 Moved Permanently", "404 Not Found", "500 Internal Server Error"],
     correctAnswer: 2,
@@ -128,6 +338,7 @@ const MOCK_QUIZ: QuizQuestion[] = [
     category: "Technical"
   },
   {
+    kind: "single",
     question: "A bat and a ball cost $1.10 in total. The bat costs $1.00 more than the ball. How much does the ball cost?",
     options: ["$0.05", "$0.10", "$0.15", "$0.01"],
     correctAnswer: 0,
@@ -135,6 +346,7 @@ const MOCK_QUIZ: QuizQuestion[] = [
     category: "Aptitude"
   },
   {
+    kind: "single",
     question: "What does the 'C' in ACID properties of database transactions stand for?",
     options: ["Capacity", "Consistency", "Concurrency", "Durability"],
     correctAnswer: 1,
@@ -142,6 +354,7 @@ const MOCK_QUIZ: QuizQuestion[] = [
     category: "Technical"
   },
   {
+    kind: "single",
     question: "You have a disagreement with a senior engineer about a technical implementation. How do you handle it?",
     options: [
       "Do it their way immediately to avoid conflict",
@@ -152,9 +365,82 @@ const MOCK_QUIZ: QuizQuestion[] = [
     correctAnswer: 2,
     explanation: "Focusing on data, trade-offs, and open discussion is the most professional and productive approach.",
     category: "Behavioral"
+  },
+  {
+    kind: "multi",
+    question: "Which of these are valid ways to share state between React components?",
+    options: ["Lifting state up to a common parent", "React Context", "Directly mutating another component's props", "An external store such as Redux"],
+    correctAnswers: [0, 1, 3],
+    explanation: "Props are read-only; state is shared by lifting it up, through context, or with an external store.",
+    category: "Technical"
+  },
+  {
+    kind: "true-false",
+    question: "HTTP is a stateless protocol.",
+    correctAnswer: true,
+    explanation: "Each HTTP request is independent; state is layered on top with cookies, tokens or sessions.",
+    category: "Technical"
+  },
+  {
+    kind: "fill-in",
+    question: "In SQL, the ___ clause filters groups after aggregation.",
+    acceptedAnswers: ["HAVING"],
+    explanation: "WHERE filters rows before grouping, HAVING filters the aggregated groups.",
+    category: "Technical"
+  },
+  {
+    kind: "ordering",
+    question: "Put the phases of a typical CI/CD pipeline in order.",
+    items: ["Commit code", "Build", "Run automated tests", "Deploy to staging", "Deploy to production"],
+    explanation: "Code is built and tested before being promoted through staging to production.",
+    category: "Technical"
+  },
+  {
+    kind: "free-text",
+    question: "Explain in a few sentences what a database index is and when you would not add one.",
+    modelAnswer: "An index is an auxiliary data structure (usually a B-tree) that lets the database find rows without scanning the whole table. It speeds up reads on the indexed columns but costs storage and slows down inserts and updates, so avoid indexes on small tables, rarely queried columns or write-heavy tables.",
+    keyPoints: ["Speeds up lookups by avoiding full table scans", "Costs extra storage", "Slows down writes such as inserts and updates", "Not worth it for small or write-heavy tables"],
+    explanation: "Indexes trade write performance and storage for faster reads.",
+    category: "Technical"
   }
 ];
 
+const MOCK_CODING_CHALLENGE: CodingChallenge = {
+  title: "Balanced Brackets (Demo)",
+  description: "Given a string containing only the characters `()[]{}`, return true if every opening bracket is closed by the same type of bracket in the correct order, and false otherwise. An empty string is balanced.",
+  functionName: "isBalanced",
+  signature: "function isBalanced(s: string): boolean",
+  starterCode: {
+    javascript: "function isBalanced(s) {\n  // Your code here\n}\n",
+    typescript: "function isBalanced(s: string): boolean {\n  // Your code here\n}\n"
+  },
+  constraints: ["0 <= s.length <= 10^4", "s contains only ()[]{}"],
+  tests: [
+    { args: ["()"], expected: true, hidden: false },
+    { args: ["()[]{}"], expected: true, hidden: false },
+    { args: ["(]"], expected: false, hidden: false },
+    { args: ["([)]"], expected: false, hidden: true },
+    { args: ["{[]}"], expected: true, hidden: true },
+    { args: [""], expected: true, hidden: true },
+    { args: ["(("], expected: false, hidden: true }
+  ]
+};
+
+const MOCK_DESIGN_PROMPT: DesignPrompt = {
+  title: "Design a URL Shortener (Demo)",
+  scenario: "Design a service like bit.ly that turns long URLs into short links and redirects visitors to the original URL. Logged-in users can see click counts for their links.",
+  constraints: ["100M new links per month", "Redirects outnumber new links 100:1", "Redirect latency under 50 ms at p99", "Links never expire unless deleted"],
+  focusAreas: ["Generating unique short codes", "Read-heavy traffic and caching", "Click analytics without slowing redirects"]
+};
+
+const MOCK_BEHAVIORAL_QUESTIONS: BehavioralQuestion[] = [
+  { question: "Tell me about a time you disagreed with a teammate on a technical decision.", competency: "Conflict resolution", lookingFor: "Respectful disagreement backed by data, and a resolution that served the project." },
+  { question: "Describe a project that failed or missed its deadline. What did you do?", competency: "Ownership", lookingFor: "Honest ownership of your part, recovery steps and what you changed afterwards." },
+  { question: "Tell me about a time you had to learn a new technology quickly.", competency: "Learning agility", lookingFor: "A structured approach to learning and a concrete result delivered with the new skill." },
+  { question: "Give an example of when you improved a process or system nobody asked you to fix.", competency: "Initiative", lookingFor: "Spotting a problem, persuading others and a measurable improvement." },
+  { question: "Describe a time you had to explain something technical to a non-technical stakeholder.", competency: "Communication", lookingFor: "Adapting the message to the audience and checking it landed." }
+];
+
 const MOCK_JOBS: JobListing[] = [
   { title: "Senior Frontend Developer", company: "TechCorp (Demo)", location: "Remote", url: "#" },
   { title: "React Native Engineer", company: "AppStudio (Demo)", location: "New York, NY", url: "#" },
@@ -163,26 +449,69 @@ const MOCK_JOBS: JobListing[] = [
   { title: "Full Stack Engineer", company: "StartupX (Demo)", location: "Austin, TX", url: "#" }
 ];
 
-// Helper to clean Markdown JSON code blocks
-const cleanJson = (text: string): string => {
-  if (!text) return '{}';
-  return text.replace(/^```json\s*/, '').replace(/\s*```$/, '').trim();
+// --- FALLBACK HANDLING ---
+
+const categorizeError = (error: any): ServiceError => {
+  const message: string = error?.message || String(error);
+
+  if (error instanceof AIValidationError) {
+    return { category: 'invalid-response', message: `The AI response was still invalid after a retry (${error.errors[0]}).` };
+  }
+  if (/\b(401|403)\b|api key not valid|permission_denied|unauthori[sz]ed/i.test(message)) {
+    return { category: 'auth', message: 'The API key was rejected. Check it in Settings.' };
+  }
+  if (/\b429\b|quota|resource_exhausted|rate limit/i.test(message)) {
+    return { category: 'quota', message: 'The AI quota or rate limit was reached. Try again in a little while.' };
+  }
+  if ((typeof navigator !== 'undefined' && !navigator.onLine) || /failed to fetch|networkerror|network request failed/i.test(message)) {
+    return { category: 'network', message: 'Could not reach the AI service. Check your connection or local model server.' };
+  }
+  if (/cannot read .* attachments/i.test(message)) {
+    return { category: 'unsupported', message };
+  }
+  return { category: 'unknown', message };
 };
 
-const handleOfflineError = (error: any, mockData: any, context: string) => {
-  console.warn(`Gemini API Error in ${context} (or Offline Mode). Returning mock data.`, error);
-  return mockData;
+const OFFLINE_ERROR: ServiceError = {
+  category: 'offline',
+  message: 'No AI provider is configured. Add a Gemini API key or a local model server in Settings.'
 };
 
-export const parseResumeDocument = async (base64Data: string, mimeType: string): Promise<ParsedResume> => {
-  if (!ai) {
-    console.info("Offline Mode: Returning mock resume.");
-    await new Promise(r => setTimeout(r, 1500)); // Simulate processing delay
-    return MOCK_RESUME;
+// Prefer the last live response for the same request, otherwise the demo (or locally computed) data
+const fallbackResult = <T>(key: string, mockData: T, mockSource: 'demo' | 'local', error: ServiceError): ServiceResult<T> => {
+  const cached = readCache<T>(key);
+  if (cached) return { data: cached.data, source: 'cached', cachedAt: cached.savedAt, error };
+  return { data: mockData, source: mockSource, error };
+};
+
+// Runs a live AI call and wraps the outcome in a ServiceResult envelope
+const runWithFallback = async <T>(
+  context: string,
+  args: unknown[],
+  mockData: T,
+  offlineDelay: number,
+  task: (provider: AIProvider) => Promise<T>,
+  mockSource: 'demo' | 'local' = 'demo'
+): Promise<ServiceResult<T>> => {
+  const key = cacheKey(context, args);
+  const provider = getActiveProvider();
+
+  if (!provider) {
+    await new Promise(r => setTimeout(r, offlineDelay)); // Simulate processing delay
+    return fallbackResult(key, mockData, mockSource, OFFLINE_ERROR);
   }
 
   try {
-    const prompt = `
+    const data = await task(provider);
+    writeCache(key, data);
+    return { data, source: 'live' };
+  } catch (error) {
+    console.warn(`AI provider error in ${context}. Falling back to cached or mock data.`, error);
+    return fallbackResult(key, mockData, mockSource, categorizeError(error));
+  }
+};
+
+const RESUME_PROMPT = `
       Analyze this document. It could be a Resume, a CV, or an Employment Offer Letter.
       
       1. If it is a **Resume/CV**: Extract the candidate's details normally.
@@ -201,244 +530,405 @@ export const parseResumeDocument = async (base64Data: string, mimeType: string):
          For each role, provide a match score (0-100), a brief reasoning, and a list of 5 required technical skills.
     `;
 
-    const response = await ai.models.generateContent({
-      model: MODEL_FLASH,
-      contents: {
-        parts: [
-          { inlineData: { mimeType, data: base64Data } },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            fullName: { type: Type.STRING },
-            summary: { type: Type.STRING },
-            skills: { type: Type.ARRAY, items: { type: Type.STRING } },
-            yearsOfExperience: { type: Type.NUMBER },
-            suggestedRoles: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  title: { type: Type.STRING },
-                  matchScore: { type: Type.NUMBER },
-                  reasoning: { type: Type.STRING },
-                  requiredSkills: { type: Type.ARRAY, items: { type: Type.STRING } }
-                }
-              }
-            }
-          }
-        }
-      }
-    });
+export const parseResumeDocument = (base64Data: string, mimeType: string): Promise<ServiceResult<ParsedResume>> =>
+  runWithFallback("parseResumeDocument", [base64Data, mimeType], MOCK_RESUME, 1500, () =>
+    generateStructured(
+      { prompt: RESUME_PROMPT, schema: RESUME_SCHEMA, attachment: { mimeType, data: base64Data } },
+      validateParsedResume,
+      "parseResumeDocument"
+    )
+  );
+
+// Text already extracted (and possibly corrected) in the browser; offline mode analyses it heuristically
+export const parseResumeText = (text: string): Promise<ServiceResult<ParsedResume>> =>
+  runWithFallback("parseResumeText", [text], buildHeuristicResume(text), 500, () =>
+    generateStructured(
+      { prompt: `${RESUME_PROMPT}\n      --- DOCUMENT TEXT ---\n${text}`, schema: RESUME_SCHEMA },
+      validateParsedResume,
+      "parseResumeText"
+    ),
+    'local'
+  );
+
+// Re-suggests roles after the user edits their profile; offline it falls back to dictionary matching
+export const generateSuggestedRoles = (profile: Omit<ParsedResume, 'suggestedRoles'>): Promise<ServiceResult<SuggestedRole[]>> =>
+  runWithFallback("generateSuggestedRoles", [profile], suggestRolesForSkills(profile.skills), 1000, () => {
+    const prompt = `
+      A candidate has the following profile:
+      - Name: ${profile.fullName}
+      - Summary: ${profile.summary}
+      - Skills: ${profile.skills.join(', ')}
+      - Years of experience: ${profile.yearsOfExperience}
+
+      Suggest 3 distinct job roles that fit this profile and seniority.
+      For each role, provide a match score (0-100), a brief reasoning, and a list of 5 required technical skills.
+    `;
 
-    return JSON.parse(cleanJson(response.text || '{}')) as ParsedResume;
-  } catch (error) {
-    return handleOfflineError(error, MOCK_RESUME, "parseResumeDocument");
-  }
-};
+    return generateStructured(
+      { prompt, schema: { type: Type.ARRAY, items: SUGGESTED_ROLE_SCHEMA } },
+      listOf(validateSuggestedRole),
+      "generateSuggestedRoles"
+    );
+  }, 'local');
 
-export const generateLearningPath = async (role: string, currentSkills: string[]): Promise<LearningResource[]> => {
-  if (!ai) {
-    await new Promise(r => setTimeout(r, 1000));
-    return MOCK_RESOURCES;
-  }
+// Turns a pasted job posting into a role; matchScore is computed locally against the resume afterwards
+export const parseJobDescription = (jobDescription: string): Promise<ServiceResult<SuggestedRole>> =>
+  runWithFallback("parseJobDescription", [jobDescription], buildHeuristicJobRole(jobDescription), 800, () => {
+    const prompt = `
+      Read the job posting below and extract:
+      1. The job title (as written in the posting)
+      2. The hiring company, if mentioned
+      3. A one or two sentence summary of the role as "reasoning"
+      4. Every distinct required or strongly preferred skill, tool or technology (short names, max 12).
+         Do not include generic traits like "team player".
+      Set matchScore to 0.
+
+      --- JOB POSTING ---
+      ${jobDescription}
+    `;
 
-  try {
+    return generateStructured({ prompt, schema: JOB_ROLE_SCHEMA }, validateSuggestedRole, "parseJobDescription");
+  }, 'local');
+
+export const generateLearningPath = (role: string, currentSkills: string[]): Promise<ServiceResult<LearningResource[]>> =>
+  runWithFallback("generateLearningPath", [role, currentSkills], MOCK_RESOURCES, 1000, () => {
     const prompt = `
       Create a study plan for a candidate targeting the role of "${role}".
       Their current skills are: ${currentSkills.join(', ')}.
       Provide a list of 5 high-quality learning resources (Courses, Articles, Documentation) to close skill gaps.
     `;
 
-    const response = await ai.models.generateContent({
-      model: MODEL_FLASH,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              title: { type: Type.STRING },
-              type: { type: Type.STRING, enum: ['Course', 'Article', 'Video', 'Documentation'] },
-              url: { type: Type.STRING },
-              description: { type: Type.STRING }
-            }
-          }
-        }
-      }
-    });
+    return generateStructured(
+      { prompt, schema: resourceListSchema(['Course', 'Article', 'Video', 'Documentation']) },
+      listOf(validateLearningResource),
+      "generateLearningPath"
+    );
+  });
+
+// --- Quiz generation backed by the local question bank ---
+
+// How many banked questions are listed in the prompt so a new quiz avoids repeating them
+const RECENT_QUESTIONS_IN_PROMPT = 20;
+
+const avoidQuestionsPrompt = (questions: string[]) =>
+  questions.length ? `Do not repeat or rephrase any of these questions:\n${questions.map(q => `- ${q}`).join('\n')}` : '';
+
+// Live questions are added to the bank; when the provider is unavailable the bank is tried before cached or demo data.
+// With the "prefer question bank" setting the provider is only called when the bank cannot fill the quiz.
+const withQuestionBank = async (
+  query: BankQuery,
+  minQuestions: number,
+  generate: () => Promise<ServiceResult<QuizQuestion[]>>
+): Promise<ServiceResult<QuizQuestion[]>> => {
+  const fromBank = async () => {
+    try {
+      const data = await assembleFromBank(query);
+      return data.length >= minQuestions ? data : null;
+    } catch (e) {
+      console.warn("Question bank unavailable", e);
+      return null;
+    }
+  };
 
-    return JSON.parse(cleanJson(response.text || '[]')) as LearningResource[];
-  } catch (error) {
-    return handleOfflineError(error, MOCK_RESOURCES, "generateLearningPath");
+  if (loadPreferBank()) {
+    const banked = await fromBank();
+    if (banked) return { data: banked, source: 'bank' };
   }
-};
 
-export const generateQuiz = async (role: string, difficulty: 'Easy' | 'Medium' | 'Hard', topic: string = 'Technical'): Promise<QuizQuestion[]> => {
-  if (!ai) {
-    await new Promise(r => setTimeout(r, 1000));
-    return MOCK_QUIZ;
+  const result = await generate();
+  if (result.source === 'live') {
+    addToQuestionBank(result.data, { role: query.role, topic: query.topic, difficulty: query.difficulty || 'Medium' })
+      .catch(e => console.warn("Failed to add questions to the bank", e));
+    return result;
   }
 
-  try {
-    const prompt = `
-      Generate a ${difficulty} ${topic} quiz for a "${role}" interview.
-      Create 5 multiple-choice questions.
-    `;
+  const banked = await fromBank();
+  return banked ? { data: banked, source: 'bank', error: result.error } : result;
+};
 
-    const response = await ai.models.generateContent({
-      model: MODEL_FLASH,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              question: { type: Type.STRING },
-              options: { type: Type.ARRAY, items: { type: Type.STRING } },
-              correctAnswer: { type: Type.INTEGER },
-              explanation: { type: Type.STRING },
-              category: { type: Type.STRING, enum: ['Technical', 'Aptitude', 'Behavioral'] }
-            }
-          }
-        }
-      }
-    });
+const recentQuestions = (role: string, topic?: string) =>
+  recentBankedQuestions(role, topic, RECENT_QUESTIONS_IN_PROMPT).catch(() => [] as string[]);
 
-    return JSON.parse(cleanJson(response.text || '[]')) as QuizQuestion[];
-  } catch (error) {
-    return handleOfflineError(error, MOCK_QUIZ, "generateQuiz");
-  }
+// --- Question formats ---
+
+const QUESTION_KIND_PROMPTS: Record<QuestionKind, string> = {
+  'single': '"single": multiple choice with one right answer. Fill "options" (4 choices) and "correctAnswer" (0-based index).',
+  'multi': '"multi": multiple choice with several right answers. Fill "options" (4-5 choices) and "correctAnswers" (0-based indexes).',
+  'true-false': '"true-false": a statement to judge. Fill "isTrue".',
+  'fill-in': '"fill-in": a sentence with ___ marking one missing term. Fill "acceptedAnswers" with the term and its common spellings.',
+  'ordering': '"ordering": 3-6 steps to put in order. Fill "items" in the correct order; the app shuffles them.',
+  'free-text': '"free-text": a short open answer of 2-4 sentences. Fill "modelAnswer" and 2-4 "keyPoints" a good answer covers.',
 };
 
-export const generateAptitudePrep = async (): Promise<LearningResource[]> => {
-  if (!ai) {
-    await new Promise(r => setTimeout(r, 1000));
-    return MOCK_RESOURCES;
-  }
+const questionKindsPrompt = (kinds: QuestionKind[]) => `
+        Use these question formats${kinds.length > 1 ? ', mixing them across the quiz' : ''}. Set "kind" on every question and leave the other formats' fields out:
+        ${kinds.map(k => `- ${QUESTION_KIND_PROMPTS[k]}`).join('\n        ')}`;
 
-  try {
+// Offline quizzes keep to the requested formats where the demo set has them
+const mockQuestions = (kinds: QuestionKind[], count: number) => {
+  const matching = MOCK_QUIZ.filter(q => kinds.includes(q.kind));
+  return (matching.length ? matching : MOCK_QUIZ).slice(0, count);
+};
+
+// `exclude` lists questions already asked, so adaptive follow-up batches do not repeat them
+export const generateQuiz = (
+  role: string,
+  difficulty: QuizDifficulty,
+  topic: string = 'Technical',
+  count: number = 5,
+  exclude: string[] = [],
+  kinds: QuestionKind[] = ['single']
+): Promise<ServiceResult<QuizQuestion[]>> =>
+  withQuestionBank({ role, topic, difficulty, count, exclude, kinds }, Math.min(3, count), () =>
+    runWithFallback("generateQuiz", [role, difficulty, topic, count, exclude, kinds], mockQuestions(kinds, count), 1000, async () => {
+      const avoid = [...exclude, ...(await recentQuestions(role, topic))];
+      const prompt = `
+        Generate a ${difficulty} ${topic} quiz for a "${role}" interview.
+        Create ${count} questions.
+        ${questionKindsPrompt(kinds)}
+        ${avoidQuestionsPrompt(avoid)}
+      `;
+
+      return generateStructured({ prompt, schema: QUIZ_SCHEMA }, listOf(validateQuizQuestion, Math.min(3, count)), "generateQuiz");
+    })
+  );
+
+export const generateAptitudePrep = (): Promise<ServiceResult<LearningResource[]>> =>
+  runWithFallback("generateAptitudePrep", [], MOCK_RESOURCES, 1000, () => {
     const prompt = `
       Provide 5 general aptitude and logical reasoning preparation topics and resources for a job interview.
       Focus on quantitative aptitude, logical reasoning, and verbal ability.
     `;
 
-    const response = await ai.models.generateContent({
-      model: MODEL_FLASH,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              title: { type: Type.STRING },
-              type: { type: Type.STRING, enum: ['Article', 'Video', 'Documentation'] },
-              url: { type: Type.STRING },
-              description: { type: Type.STRING }
-            }
-          }
-        }
-      }
-    });
+    return generateStructured(
+      { prompt, schema: resourceListSchema(['Article', 'Video', 'Documentation']) },
+      listOf(validateLearningResource),
+      "generateAptitudePrep"
+    );
+  });
+
+// The mock test mixes every question format by default, like a real screening round
+export const generateFullMockTest = (role: string, kinds: QuestionKind[] = QUESTION_KINDS): Promise<ServiceResult<QuizQuestion[]>> =>
+  withQuestionBank({ role, difficulty: 'Medium', count: 10, kinds }, 5, () =>
+    runWithFallback("generateFullMockTest", [role, kinds], mockQuestions(kinds, 10), 1500, async () => {
+      const prompt = `
+        Create a comprehensive 10-question mock test for a "${role}" candidate.
+        Include:
+        - 5 Technical questions related to the role
+        - 3 Aptitude/Logic questions
+        - 2 Behavioral/Situational questions
+        ${questionKindsPrompt(kinds)}
+        Return as a JSON array.
+        ${avoidQuestionsPrompt(await recentQuestions(role))}
+      `;
+
+      return generateStructured({ prompt, schema: QUIZ_SCHEMA }, listOf(validateQuizQuestion, 5), "generateFullMockTest");
+    })
+  );
+
+export const generateCodingChallenge = (role: string, difficulty: QuizDifficulty): Promise<ServiceResult<CodingChallenge>> =>
+  runWithFallback("generateCodingChallenge", [role, difficulty], MOCK_CODING_CHALLENGE, 1000, () => {
+    const prompt = `
+      Create a ${difficulty} live-coding interview problem suitable for a "${role}" candidate.
+      It must be solvable as one self-contained function in JavaScript or TypeScript, without browser or Node APIs.
+
+      Provide:
+      - A clear problem statement with one worked example, and any constraints.
+      - "functionName" and its TypeScript "signature", plus starter code in JavaScript and TypeScript with an empty body.
+      - 6-10 test cases. "args" is a JSON array of the arguments and "expected" the JSON return value.
+        Mark 3 simple cases as visible ("hidden": false) and the rest, including edge cases, as hidden.
+      Use only JSON-compatible inputs and outputs (numbers, strings, booleans, null, arrays, plain objects).
+    `;
 
-    return JSON.parse(cleanJson(response.text || '[]')) as LearningResource[];
-  } catch (error) {
-    return handleOfflineError(error, MOCK_RESOURCES, "generateAptitudePrep");
-  }
+    return generateStructured({ prompt, schema: CODING_CHALLENGE_SCHEMA }, validateCodingChallenge, "generateCodingChallenge");
+  });
+
+const describeTestRun = ({ challenge, results }: CodeReviewRequest) => {
+  if (!results) return 'The tests have not been run yet.';
+  return results
+    .map((r, i) => r && `- Test ${i + 1}${challenge.tests[i].hidden ? ' (hidden)' : ''}: ${r.passed ? 'passed' : r.timedOut ? 'timed out' : `failed${r.error ? ` (${r.error})` : ''}`}`)
+    .filter(Boolean)
+    .join('\n');
 };
 
-export const generateFullMockTest = async (role: string): Promise<QuizQuestion[]> => {
-  if (!ai) {
-    await new Promise(r => setTimeout(r, 1500));
-    // Return a longer list for mock test by duplicating
-    return [...MOCK_QUIZ, ...MOCK_QUIZ]; 
-  }
+// Pass/fail per test ('-' for tests not run), so a cached review only serves the same run
+const testRunDigest = ({ results }: CodeReviewRequest) =>
+  results ? results.map(r => (!r ? '-' : r.passed ? 'P' : r.timedOut ? 'T' : 'F')).join('') : null;
 
-  try {
+// Interviewer-style review of a coding solution; offline it falls back to a review built from the test results
+export const reviewCodingSolution = (request: CodeReviewRequest): Promise<ServiceResult<CodeReview>> =>
+  runWithFallback("reviewCodingSolution", [request.challenge.title, request.language, request.code, testRunDigest(request)], buildLocalCodeReview(request), 500, async () => {
+    const { challenge, code, language } = request;
     const prompt = `
-      Create a comprehensive 10-question mock test for a "${role}" candidate.
-      Include:
-      - 5 Technical questions related to the role
-      - 3 Aptitude/Logic questions
-      - 2 Behavioral/Situational questions
-      Return as a JSON array.
+      You are a senior engineer reviewing a candidate's solution in a live-coding interview.
+
+      Problem: ${challenge.title}
+      ${challenge.description}
+      Signature: ${challenge.signature}
+
+      Candidate's ${language === 'typescript' ? 'TypeScript' : 'JavaScript'} solution:
+      \`\`\`
+      ${code}
+      \`\`\`
+
+      Latest test results:
+      ${describeTestRun(request)}
+
+      Rate each rubric criterion from 1 (poor) to 5 (excellent) with a one or two sentence comment:
+      correctness, complexity (time and space efficiency compared to the best known approach),
+      readability (naming, structure, idiomatic ${language === 'typescript' ? 'TypeScript' : 'JavaScript'}) and edgeCases.
+      State the solution's time and space complexity in Big-O notation, list edge cases it misses or handles incorrectly,
+      and give an improved reference solution in the same language with the same signature.
+      Write the summary as an interviewer's overall verdict, addressed to the candidate.
     `;
 
-    const response = await ai.models.generateContent({
-      model: MODEL_FLASH,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              question: { type: Type.STRING },
-              options: { type: Type.ARRAY, items: { type: Type.STRING } },
-              correctAnswer: { type: Type.INTEGER },
-              explanation: { type: Type.STRING },
-              category: { type: Type.STRING, enum: ['Technical', 'Aptitude', 'Behavioral'] }
-            }
-          }
-        }
-      }
-    });
+    const review = await generateStructured({ prompt, schema: CODE_REVIEW_SCHEMA }, validateCodeReview, "reviewCodingSolution");
+    return { ...review, reviewedCode: code, reviewedAt: Date.now() };
+  }, 'local');
 
-    return JSON.parse(cleanJson(response.text || '[]')) as QuizQuestion[];
-  } catch (error) {
-    return handleOfflineError(error, [...MOCK_QUIZ, ...MOCK_QUIZ], "generateFullMockTest");
-  }
-};
+export const generateDesignPrompt = (role: string): Promise<ServiceResult<DesignPrompt>> =>
+  runWithFallback("generateDesignPrompt", [role], MOCK_DESIGN_PROMPT, 1000, () => {
+    const prompt = `
+      Create a system design interview question for a "${role}" candidate, pitched at the level of that role.
+      Prefer a system the role would plausibly build or own (e.g. a frontend role gets a client-heavy product, a data role a pipeline).
+      Give a short scenario, 3-5 concrete scale or product constraints, and 2-4 areas the interviewer will probe.
+    `;
 
-export const searchJobs = async (role: string, location: string = "Remote"): Promise<JobListing[]> => {
-  if (!ai) {
-    await new Promise(r => setTimeout(r, 1000));
-    return MOCK_JOBS;
-  }
+    return generateStructured({ prompt, schema: DESIGN_PROMPT_SCHEMA }, validateDesignPrompt, "generateDesignPrompt");
+  });
 
-  try {
-    const prompt = `Find 5 recent job listings for "${role}" in "${location}". Return the results using the Google Search tool.`;
+// Grades the structured answer and diagram section by section; offline it only measures how complete the answer is
+export const gradeSystemDesign = (session: Pick<SystemDesignSession, 'prompt' | 'answers' | 'diagram'>): Promise<ServiceResult<DesignGrade>> =>
+  runWithFallback("gradeSystemDesign", [session.prompt.title, session.answers, session.diagram], buildLocalDesignGrade(session), 800, async () => {
+    const prompt = `
+      You are a staff engineer running a system design interview. Grade the candidate's written answer and diagram.
 
-    const response = await ai.models.generateContent({
-      model: MODEL_FLASH,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }]
-      }
-    });
+      Question: ${session.prompt.title}
+      ${session.prompt.scenario}
+      Constraints: ${session.prompt.constraints.join('; ')}
+      Areas to probe: ${session.prompt.focusAreas.join('; ')}
+
+      Candidate's answer:
+      ${DESIGN_SECTIONS.map(s => `## ${s.label}\n${session.answers[s.id].trim() || '(left blank)'}`).join('\n\n')}
 
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      Candidate's diagram:
+      ${describeDiagram(session.diagram)}
+
+      Rate each section (requirements, apis, dataModel, scaling, tradeOffs) from 1 (missing or wrong) to 5 (what you expect from a strong hire),
+      with a comment that names specific strengths or omissions. Use the diagram as evidence for the scaling and data model sections.
+      List the main strengths and gaps, and 3-5 specific follow-up questions you would ask next, aimed at the weakest parts of the design.
+      Write the summary as your overall hiring signal, addressed to the candidate.
+    `;
+
+    const grade = await generateStructured({ prompt, schema: DESIGN_GRADE_SCHEMA }, validateDesignGrade, "gradeSystemDesign");
+    return { ...grade, gradedAt: Date.now() };
+  }, 'local');
+
+// Questions are tailored to the candidate's background so their real stories fit
+export const generateBehavioralQuestions = (role: string, resumeSummary: string, count: number = 5): Promise<ServiceResult<BehavioralQuestion[]>> =>
+  runWithFallback("generateBehavioralQuestions", [role, resumeSummary, count], MOCK_BEHAVIORAL_QUESTIONS.slice(0, count), 1000, () => {
+    const prompt = `
+      Write ${count} behavioral interview questions for a "${role}" interview.
+      The candidate's background: "${resumeSummary || 'not provided'}".
+      Cover different competencies (e.g. conflict, ownership, leadership, failure, communication) and pitch them at the role's seniority.
+      Tailor them so the candidate can answer from the experience described.
+      For each, name the competency and what the interviewer is looking for in a strong answer.
+    `;
+
+    return generateStructured({ prompt, schema: BEHAVIORAL_QUESTIONS_SCHEMA }, listOf(validateBehavioralQuestion, Math.min(3, count)), "generateBehavioralQuestions");
+  });
+
+export const scoreStarAnswer = (question: BehavioralQuestion, answer: string, role: string): Promise<ServiceResult<StarFeedback>> =>
+  runWithFallback("scoreStarAnswer", [question.question, answer, role], buildLocalStarFeedback(answer), 500, async () => {
+    const words = countWords(answer);
+    const prompt = `
+      You are an interview coach reviewing a written answer to a behavioral question for a "${role}" role.
+      Question: ${question.question}
+      Competency: ${question.competency}. The interviewer is looking for: ${question.lookingFor}
+      Candidate's answer (${words} words):
+      """${answer}"""
+
+      Rate from 1 to 5, with a one or two sentence comment each:
+      - situation: is the context clear and brief?
+      - task: is the candidate's own responsibility clear?
+      - action: are the candidate's own steps concrete, in the first person?
+      - result: is there an outcome, ideally measured, and a reflection?
+      - specificity: names, numbers and details rather than generalities.
+      Write a short summary of the most important improvement.
+      Then write a suggested rewrite that keeps the candidate's facts, invents nothing, follows STAR and fits in about ${Math.min(Math.max(words, 200), 350)} words.
+    `;
+
+    const feedback = await generateStructured({ prompt, schema: STAR_FEEDBACK_SCHEMA }, validateStarFeedback, "scoreStarAnswer");
+    return { ...feedback, wordCount: words, lengthVerdict: lengthVerdict(words), scoredAnswer: answer, scoredAt: Date.now() };
+  }, 'local');
+
+export const scoreInterview = (role: string, session: Pick<InterviewSession, 'startedAt' | 'transcript' | 'settings'>): Promise<ServiceResult<InterviewScorecard>> =>
+  runWithFallback("scoreInterview", [role, session.transcript.turns], buildLocalInterviewScorecard(session.transcript), 500, async () => {
+    const kind = session.settings ? `${interviewTypeLabel(session.settings.type).toLowerCase()} interview` : 'HR interview';
+    const prompt = `
+      You are a hiring manager reviewing the transcript of a live ${kind} for a "${role}" role.
+      Each line starts with the time into the interview and the speaker; "You" is the candidate. The transcript comes from speech
+      recognition, so ignore transcription glitches and judge the content. "(interrupted)" marks where the candidate spoke over the interviewer.
+
+      Transcript:
+      ${transcriptToText(session.transcript, session.startedAt)}
+
+      Rate the candidate from 1 (poor) to 5 (excellent) with a one or two sentence comment each:
+      - communication: clarity, structure and concision
+      - relevance: whether answers address the question that was asked
+      - confidence: composure, ownership and lack of hedging
+      - roleFit: how well the experience and motivation shown match a "${role}" role
+      For every question the candidate answered, quote a short excerpt of the answer and write one note on how to improve it.
+      List the top three improvements, most important first.
+      Write the summary as an interviewer's overall verdict, addressed to the candidate.
+    `;
+
+    const scorecard = await generateStructured({ prompt, schema: INTERVIEW_SCORECARD_SCHEMA }, validateInterviewScorecard, "scoreInterview");
+    return { ...scorecard, scoredAt: Date.now() };
+  }, 'local');
+
+// Free-text answers are graded by the model against the model answer; offline they get the keyword estimate
+export const gradeFreeTextAnswer = (question: FreeTextQuestion, answer: string): Promise<ServiceResult<QuestionGrade>> =>
+  runWithFallback("gradeFreeTextAnswer", [question.question, answer], gradeFreeTextLocally(question, answer), 300, () => {
+    const prompt = `
+      You are grading a candidate's short written answer in a technical interview quiz.
+      Question: ${question.question}
+      Model answer: ${question.modelAnswer}
+      Key points: ${question.keyPoints.join('; ') || 'see model answer'}
+      Candidate's answer: """${answer}"""
+
+      Give a score from 0 to 100 for how well the answer covers the key points and is technically accurate.
+      Set "correct" to true when the answer would satisfy an interviewer.
+      Give one or two sentences of feedback addressed to the candidate, naming anything they missed or got wrong.
+    `;
+
+    return generateStructured({ prompt, schema: GRADE_SCHEMA }, validateQuestionGrade, "gradeFreeTextAnswer");
+  }, 'local');
+
+export const searchJobs = (role: string, location: string = "Remote"): Promise<ServiceResult<JobListing[]>> =>
+  runWithFallback("searchJobs", [role, location], MOCK_JOBS, 1000, async (provider) => {
+    // Fallback used when the provider has no search tool or finds nothing
+    const searchLink: JobListing[] = [
+      { title: `${role} - Search Results`, company: "Google Search", location, url: `https://www.google.com/search?q=${encodeURIComponent(role + ' jobs')}` }
+    ];
+
+    if (!provider.searchWeb) return searchLink;
+
+    const prompt = `Find 5 recent job listings for "${role}" in "${location}". Return the results using the Google Search tool.`;
+
+    const results = await provider.searchWeb(prompt);
     
-    const listings: JobListing[] = chunks
-      .filter(c => c.web?.uri && c.web?.title)
-      .map(c => ({
-        title: c.web?.title || "Job Opening",
-        company: "Source: Web",
-        location: location,
-        url: c.web?.uri || "#"
-      }))
-      .slice(0, 6);
+    const listings = listOf(validateJobListing)(results.map(r => ({
+      title: r.title || "Job Opening",
+      company: "Source: Web",
+      location: location,
+      url: r.uri
+    })));
     
     // Fallback if no chunks found (rare but possible if model just chats)
-    if (listings.length === 0) {
-        return [
-            { title: `${role} - Search Results`, company: "Google Search", location, url: `https://www.google.com/search?q=${encodeURIComponent(role + ' jobs')}` }
-        ];
+    if (!listings.value) {
+        return searchLink;
     }
 
-    return listings;
-  } catch (error) {
-    return handleOfflineError(error, MOCK_JOBS, "searchJobs");
-  }
-};
\ No newline at end of file
+    return listings.value.slice(0, 6);
+  });
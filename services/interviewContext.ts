@@ -0,0 +1,73 @@
+import { InterviewContext, ParsedResume, QuizAttempt, QuizWeakArea, SuggestedRole, TrackArtifacts } from "../types";
+import { scoreByCategory } from "./quizSession";
+import { scoreSkillMatch } from "./skillMatching";
+
+// --- LIVE INTERVIEWER CONTEXT ---
+// Gathers what the interviewer should know from the profile and track, so it can probe real gaps.
+
+const RECENT_ATTEMPTS = 5;
+const WEAK_AREA_RATIO = 0.6;   // below 60% correct counts as weak
+const MIN_QUESTIONS = 2;       // a single wrong answer is not a pattern
+const MAX_WEAK_AREAS = 5;
+const MAX_JOB_DESCRIPTION_CHARS = 2000;
+
+const GENERIC_ROLE: SuggestedRole = { title: 'General', matchScore: 0, reasoning: '' };
+
+// Categories answered mostly wrong across the latest practice quizzes and mock tests
+export const findWeakAreas = (attempts: QuizAttempt[]): QuizWeakArea[] => {
+  const totals = new Map<string, QuizWeakArea>();
+  [...attempts]
+    .sort((a, b) => b.finishedAt - a.finishedAt)
+    .slice(0, RECENT_ATTEMPTS)
+    .forEach(attempt => scoreByCategory(attempt).forEach(({ category, correct, total }) => {
+      const entry = totals.get(category) || { category, correct: 0, total: 0 };
+      totals.set(category, { category, correct: entry.correct + correct, total: entry.total + total });
+    }));
+  return Array.from(totals.values())
+    .filter(area => area.total >= MIN_QUESTIONS && area.correct / area.total < WEAK_AREA_RATIO)
+    .sort((a, b) => a.correct / a.total - b.correct / b.total)
+    .slice(0, MAX_WEAK_AREAS);
+};
+
+export const buildInterviewContext = (role: SuggestedRole | null, resume: ParsedResume | null, artifacts: TrackArtifacts): InterviewContext => {
+  const target = role || GENERIC_ROLE;
+  const { breakdown } = scoreSkillMatch(target.requiredSkills || [], resume?.skills || []);
+  return {
+    role: target,
+    resume,
+    skillGaps: resume ? breakdown.filter(m => m.status === 'missing').map(m => m.skill) : [],
+    weakAreas: findWeakAreas([...(artifacts.quizHistory || []), ...(artifacts.mockHistory || [])]),
+  };
+};
+
+// The candidate and job briefing that goes into the interviewer's system instruction
+export const describeInterviewContext = (context: InterviewContext): string => {
+  const { role, resume, skillGaps, weakAreas } = context;
+  const lines: string[] = [];
+
+  if (resume) {
+    lines.push(`Candidate: ${resume.fullName}, ${resume.yearsOfExperience} years of experience.`);
+    if (resume.summary) lines.push(`Resume summary: ${resume.summary}`);
+    if (resume.skills.length) lines.push(`Skills on the resume: ${resume.skills.join(', ')}.`);
+  } else {
+    lines.push('No resume was provided; ask the candidate about their background early on.');
+  }
+
+  if (role.company) lines.push(`The position is at ${role.company}.`);
+  if (role.requiredSkills?.length) lines.push(`Skills the role requires: ${role.requiredSkills.join(', ')}.`);
+  if (role.jobDescription) {
+    const description = role.jobDescription.length > MAX_JOB_DESCRIPTION_CHARS
+      ? `${role.jobDescription.slice(0, MAX_JOB_DESCRIPTION_CHARS)}...`
+      : role.jobDescription;
+    lines.push(`Job description:\n"""${description}"""`);
+  }
+
+  if (skillGaps.length) lines.push(`Required skills missing from the resume: ${skillGaps.join(', ')}. Probe how the candidate would cover these.`);
+  if (weakAreas.length) {
+    const areas = weakAreas.map(a => `${a.category} (${a.correct}/${a.total} correct)`).join(', ');
+    lines.push(`Weak areas in the candidate's recent practice quizzes: ${areas}. Include questions that test these.`);
+  }
+
+  lines.push('Refer to specific items from this background in your questions, check claims against it, and do not fall back on generic questions.');
+  return lines.join('\n');
+};
@@ -0,0 +1,167 @@
+import { InterviewContext, InterviewType, InterviewerSettings } from "../types";
+import { describeInterviewContext } from "./interviewContext";
+
+// --- LIVE INTERVIEWER PERSONAS ---
+// Interview types and persona settings, and the system instruction the live session is started with.
+
+export const INTERVIEW_TYPES: { id: InterviewType; label: string; description: string; brief: string }[] = [
+  {
+    id: 'hr-screen',
+    label: 'HR screen',
+    description: 'Motivation, background and soft skills.',
+    brief: 'You are an HR manager running a first-round screen. Cover motivation for the role, career story, communication, teamwork and practical details such as availability. Keep it conversational.',
+  },
+  {
+    id: 'technical',
+    label: 'Technical deep-dive',
+    description: 'Probes the technologies and projects on the resume.',
+    brief: 'You are a senior engineer running a technical deep-dive. Pick projects and technologies from the candidate\'s background and dig into how things work, design decisions, trade-offs and debugging. Ask follow-ups until you reach the limit of what they know.',
+  },
+  {
+    id: 'hiring-manager',
+    label: 'Hiring manager',
+    description: 'Impact, ownership and fit with the team.',
+    brief: 'You are the hiring manager for the team. Focus on past impact, ownership, how the candidate prioritises and handles ambiguity, how they work with others, and what they would do in their first months in the role.',
+  },
+  {
+    id: 'stress',
+    label: 'Stress interview',
+    description: 'Pushback and pressure to test composure.',
+    brief: 'You are running a stress interview. Challenge answers, question claims, interrupt long answers and ask for justification, while staying professional and never insulting. The aim is to see how the candidate stays composed and keeps reasoning under pressure.',
+  },
+  {
+    id: 'bar-raiser',
+    label: 'Bar raiser',
+    description: 'High bar on behavioral depth and judgement.',
+    brief: 'You are a bar raiser from outside the hiring team. Ask behavioral questions and keep probing each story for the candidate\'s own actions, data behind decisions, mistakes and lessons. Judge whether the candidate raises the bar of the team.',
+  },
+];
+
+export const STRICTNESS_LEVELS: { id: InterviewerSettings['strictness']; label: string; instruction: string }[] = [
+  { id: 'supportive', label: 'Supportive', instruction: 'Be encouraging. If the candidate struggles, give a gentle hint and let them try again.' },
+  { id: 'balanced', label: 'Balanced', instruction: 'Be friendly but neutral, as in a real interview. Do not give hints or feedback on answers.' },
+  { id: 'strict', label: 'Strict', instruction: 'Hold a high bar. Ask pointed follow-ups on vague or unsupported answers and do not accept generalities.' },
+];
+
+// Prebuilt voices of the Gemini Live API
+export const INTERVIEWER_VOICES: { id: string; label: string }[] = [
+  { id: 'Fenrir', label: 'Fenrir (excitable)' },
+  { id: 'Puck', label: 'Puck (upbeat)' },
+  { id: 'Charon', label: 'Charon (informative)' },
+  { id: 'Kore', label: 'Kore (firm)' },
+  { id: 'Aoede', label: 'Aoede (breezy)' },
+  { id: 'Orus', label: 'Orus (firm)' },
+  { id: 'Leda', label: 'Leda (youthful)' },
+  { id: 'Zephyr', label: 'Zephyr (bright)' },
+];
+
+export const INTERVIEW_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'en-IN', label: 'English (India)' },
+  { code: 'es-ES', label: 'Spanish' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'ja-JP', label: 'Japanese' },
+];
+
+export const DEFAULT_INTERVIEWER_SETTINGS: InterviewerSettings = {
+  type: 'hr-screen',
+  strictness: 'balanced',
+  voice: 'Fenrir',
+  language: 'en-US',
+  lengthMinutes: 15,
+  questionCount: 5,
+};
+
+export const interviewTypeLabel = (type: InterviewType): string => INTERVIEW_TYPES.find(t => t.id === type)?.label || type;
+
+// --- Interviewer settings (device setting, like the AI provider) ---
+
+const SETTINGS_KEY = 'interviewer_settings';
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+// Unknown or out-of-range values fall back to the defaults, so old or hand-edited settings still load
+export const normalizeInterviewerSettings = (input: Partial<InterviewerSettings>): InterviewerSettings => {
+  const d = DEFAULT_INTERVIEWER_SETTINGS;
+  return {
+    type: INTERVIEW_TYPES.some(t => t.id === input.type) ? input.type! : d.type,
+    strictness: STRICTNESS_LEVELS.some(l => l.id === input.strictness) ? input.strictness! : d.strictness,
+    voice: INTERVIEWER_VOICES.some(v => v.id === input.voice) ? input.voice! : d.voice,
+    language: INTERVIEW_LANGUAGES.some(l => l.code === input.language) ? input.language! : d.language,
+    lengthMinutes: clamp(input.lengthMinutes, 5, 60, d.lengthMinutes),
+    questionCount: clamp(input.questionCount, 1, 15, d.questionCount),
+  };
+};
+
+export const loadInterviewerSettings = (): InterviewerSettings => {
+  try {
+    return normalizeInterviewerSettings(JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}'));
+  } catch {
+    return DEFAULT_INTERVIEWER_SETTINGS;
+  }
+};
+
+export const saveInterviewerSettings = (settings: InterviewerSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(normalizeInterviewerSettings(settings)));
+};
+
+// --- System instruction ---
+
+export const buildInterviewerInstruction = (context: InterviewContext, settings: InterviewerSettings): string => {
+  const type = INTERVIEW_TYPES.find(t => t.id === settings.type) || INTERVIEW_TYPES[0];
+  const strictness = STRICTNESS_LEVELS.find(l => l.id === settings.strictness) || STRICTNESS_LEVELS[1];
+  const language = INTERVIEW_LANGUAGES.find(l => l.code === settings.language)?.label || settings.language;
+
+  return `${type.brief}
+You are interviewing a candidate for the position of "${context.role.title}" over video; you can see them via their camera feed.
+
+${describeInterviewContext(context)}
+
+${strictness.instruction}
+Conduct the whole interview in ${language}.
+Plan for about ${settings.questionCount} main questions in roughly ${settings.lengthMinutes} minutes, plus follow-ups. Ask one question at a time.
+Start by greeting the candidate and introducing the interview. After the last question, invite their questions and close the interview politely.`;
+};
+
+// Scripted questions for demo mode, so the simulation matches the chosen interview type
+const DEMO_QUESTIONS: Record<InterviewType, (role: string, context: InterviewContext) => string[]> = {
+  'hr-screen': role => [
+    `I see you are applying for the ${role} position. Can you tell me a bit about yourself?`,
+    'What made you interested in this role?',
+    'How do you handle conflict within a team setting?',
+    'Where do you see yourself in three years?',
+  ],
+  technical: (role, { resume, weakAreas }) => [
+    resume?.skills.length ? `Your resume mentions ${resume.skills[0]}. Walk me through a project where you used it.` : 'Walk me through the most technically challenging project you have worked on.',
+    weakAreas.length ? `Let's talk about ${weakAreas[0].category}. How would you explain the core ideas to a new teammate?` : 'What was the hardest bug you had to track down, and how did you find it?',
+    `How would you design the main system a ${role} on our team would own?`,
+    'What trade-offs did you make there, and would you make them again?',
+  ],
+  'hiring-manager': (role, { skillGaps }) => [
+    'Tell me about the project you are proudest of and your part in it.',
+    ...(skillGaps.length ? [`This role needs ${skillGaps[0]}, which I don't see on your resume. How would you get up to speed?`] : []),
+    'How do you decide what to work on when everything seems urgent?',
+    'Describe a time you disagreed with your manager. What happened?',
+    `What would you focus on in your first three months as our ${role}?`,
+  ],
+  stress: () => [
+    'Your experience looks thin for this role. Why should we take the risk?',
+    'That sounds like a team achievement. What exactly did you do?',
+    'Why are you leaving your current position so soon?',
+    'Convince me in thirty seconds that you are the best candidate.',
+  ],
+  'bar-raiser': () => [
+    'Tell me about a time you made a decision with incomplete data.',
+    'What data did you have, and what did you decide not to wait for?',
+    'Tell me about a mistake you made that affected others. What did you change afterwards?',
+    'Describe a time you raised the standard of work on your team.',
+  ],
+};
+
+export const demoInterviewQuestions = (context: InterviewContext, settings: InterviewerSettings): string[] =>
+  DEMO_QUESTIONS[settings.type](context.role.title, context).slice(0, settings.questionCount);
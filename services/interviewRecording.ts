@@ -0,0 +1,66 @@
+import { InterviewRecording, TranscriptTurn } from "../types";
+import { deleteDocument, readDocument, writeDocument } from "./storage";
+
+// --- INTERVIEW RECORDING ---
+// Records the call with MediaRecorder. Videos are too large for the workspace document and its JSON export,
+// so each one is stored as a Blob under its own key and the session only keeps the metadata.
+
+const recordingKey = (sessionId: string) => `recording:${sessionId}`;
+
+// Most browsers record WebM; Safari only supports MP4
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+export const isRecordingSupported = (): boolean => typeof MediaRecorder !== 'undefined';
+
+export interface FinishedRecording {
+  blob: Blob;
+  recording: InterviewRecording;
+}
+
+export interface InterviewRecorder {
+  // Resolves once the last chunk has been written
+  stop: () => Promise<FinishedRecording>;
+}
+
+export const startRecorder = (stream: MediaStream): InterviewRecorder => {
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  const startedAt = Date.now();
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  // Write a chunk every second, so a crash mid-call loses at most a second of video
+  recorder.start(1000);
+
+  const finished = new Promise<FinishedRecording>(resolve => {
+    recorder.onstop = () => {
+      const blob = new Blob(chunks, { type: recorder.mimeType || mimeType || 'video/webm' });
+      resolve({ blob, recording: { mimeType: blob.type, sizeBytes: blob.size, startedAt, durationMs: Date.now() - startedAt } });
+    };
+  });
+
+  return {
+    stop: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      return finished;
+    },
+  };
+};
+
+export const saveRecording = (sessionId: string, blob: Blob): Promise<void> => writeDocument(recordingKey(sessionId), blob);
+
+export const loadRecording = (sessionId: string): Promise<Blob | undefined> => readDocument<Blob>(recordingKey(sessionId));
+
+export const deleteRecording = (sessionId: string): Promise<void> => deleteDocument(recordingKey(sessionId));
+
+// Seconds into the video at which a turn was spoken
+export const turnOffsetSeconds = (recording: InterviewRecording, turn: TranscriptTurn): number =>
+  Math.max(0, (turn.startedAt - recording.startedAt) / 1000);
+
+// The turn being spoken at a point in the video: the last one to have started by then
+export const turnAtTime = (recording: InterviewRecording, turns: TranscriptTurn[], seconds: number): TranscriptTurn | undefined =>
+  turns.filter(t => turnOffsetSeconds(recording, t) <= seconds).pop();
+
+export const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
@@ -0,0 +1,104 @@
+import { InterviewCriterion, InterviewScorecard, InterviewTranscript, RubricRating } from "../types";
+import { countWords, rubricScore } from "./rubric";
+
+// --- LIVE INTERVIEW SCORECARD ---
+// Turns the call transcript into question/answer pairs and scores them when no AI provider is available.
+
+export const INTERVIEW_CRITERIA: { id: InterviewCriterion; label: string }[] = [
+  { id: 'communication', label: 'Communication' },
+  { id: 'relevance', label: 'Relevance of answers' },
+  { id: 'confidence', label: 'Confidence' },
+  { id: 'roleFit', label: 'Role fit' },
+];
+
+export interface InterviewExchange {
+  question: string;
+  answer: string;
+}
+
+// Consecutive turns from the same speaker are joined, and each answer is paired with the question before it
+export const transcriptExchanges = (transcript: InterviewTranscript): InterviewExchange[] => {
+  const exchanges: InterviewExchange[] = [];
+  let question = '';
+  let answer = '';
+  const flush = () => {
+    if (answer) exchanges.push({ question, answer });
+    answer = '';
+  };
+  transcript.turns.forEach(turn => {
+    if (turn.speaker === 'interviewer') {
+      if (answer) {
+        flush();
+        question = '';
+      }
+      question = [question, turn.text].filter(Boolean).join(' ');
+    } else {
+      answer = [answer, turn.text].filter(Boolean).join(' ');
+    }
+  });
+  flush();
+  return exchanges;
+};
+
+export const interviewScore = (scorecard: Pick<InterviewScorecard, 'rubric'>): number | null => rubricScore(scorecard.rubric, INTERVIEW_CRITERIA);
+
+const FILLER_WORDS = /\b(um+|uh+|erm|like|you know|sort of|kind of|basically|actually|i guess|maybe)\b/gi;
+
+const excerpt = (text: string, words: number = 30) => {
+  const parts = text.split(/\s+/);
+  return parts.length > words ? `${parts.slice(0, words).join(' ')}...` : text;
+};
+
+// Offline stand-in for the AI scorecard: measures answer length and filler words only.
+// Relevance and role fit need the model, so they are left unrated.
+export const buildLocalInterviewScorecard = (transcript: InterviewTranscript, now: number = Date.now()): InterviewScorecard => {
+  const exchanges = transcriptExchanges(transcript);
+  const unrated = (comment: string): RubricRating => ({ score: null, comment });
+
+  if (exchanges.length === 0) {
+    const none = unrated('No answers were captured in the transcript.');
+    return {
+      summary: 'No spoken answers were captured, so the interview could not be scored.',
+      rubric: { communication: none, relevance: none, confidence: none, roleFit: none },
+      answerNotes: [],
+      improvements: ['Check that the microphone is allowed and working before the next interview.'],
+      scoredAt: now,
+    };
+  }
+
+  const words = exchanges.map(e => countWords(e.answer));
+  const totalWords = words.reduce((sum, w) => sum + w, 0);
+  const averageWords = Math.round(totalWords / exchanges.length);
+  const fillers = exchanges.reduce((sum, e) => sum + (e.answer.match(FILLER_WORDS) || []).length, 0);
+  const fillerRate = fillers / Math.max(totalWords, 1);
+
+  // Spoken answers of roughly 40-200 words are long enough to carry an example without rambling
+  const communication = averageWords < 15 ? 2 : averageWords < 40 ? 3 : averageWords <= 200 ? 4 : 3;
+  const confidence = fillerRate > 0.08 ? 2 : fillerRate > 0.04 ? 3 : 4;
+
+  const improvements = [
+    ...(averageWords < 40 ? ['Give fuller answers: a concrete example with your actions and the outcome.'] : []),
+    ...(averageWords > 200 ? ['Keep answers under about two minutes and lead with the main point.'] : []),
+    ...(fillerRate > 0.04 ? ['Cut filler words; a short pause reads as more confident than "um" or "like".'] : []),
+    'Structure stories with the STAR method: situation, task, action, result.',
+    'Tie each answer back to what the role needs.',
+    'Prepare two questions of your own for the end of the interview.',
+  ].slice(0, 3);
+
+  return {
+    summary: 'Offline estimate from answer length and filler words. Connect an AI provider to judge relevance and role fit.',
+    rubric: {
+      communication: { score: communication, comment: `Answers averaged ${averageWords} words.` },
+      relevance: unrated('Needs an AI provider to judge.'),
+      confidence: { score: confidence, comment: `${fillers} filler ${fillers === 1 ? 'word' : 'words'} across ${totalWords} words.` },
+      roleFit: unrated('Needs an AI provider to judge.'),
+    },
+    answerNotes: exchanges.map((e, i) => ({
+      question: e.question || 'Opening',
+      answer: excerpt(e.answer),
+      note: words[i] < 15 ? 'Very short; expand with an example.' : words[i] > 200 ? 'Long; try to be more concise.' : `${words[i]} words.`,
+    })),
+    improvements,
+    scoredAt: now,
+  };
+};
@@ -0,0 +1,134 @@
+import { QuestionKind, QuizDifficulty, QuizQuestion } from "../types";
+import { readDocument, writeDocument } from "./storage";
+import { createId } from "./workspace";
+
+// --- LOCAL QUESTION BANK ---
+// Every live-generated quiz question is kept in IndexedDB, tagged by role, topic and difficulty,
+// so quizzes can be assembled without the AI provider and retries stop repeating the same questions.
+
+export interface BankedQuestion {
+  id: string;
+  question: QuizQuestion;
+  role: string;
+  topic: string;
+  difficulty: QuizDifficulty;
+  addedAt: number;
+  timesServed: number;
+}
+
+export interface BankQuery {
+  role: string;
+  topic?: string;               // omit to draw from every topic (mock tests)
+  difficulty?: QuizDifficulty;  // preferred, other levels fill any gap
+  count: number;
+  exclude?: string[];           // question texts already asked
+  kinds?: QuestionKind[];       // question formats to draw; omit for any
+}
+
+interface QuestionBankDocument {
+  version: 1;
+  questions: BankedQuestion[];
+}
+
+const BANK_KEY = 'questionBank';
+const MAX_QUESTIONS = 2000;
+// Share of distinct words two questions need in common to count as the same question
+const DUPLICATE_THRESHOLD = 0.8;
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'of', 'in', 'on', 'to', 'is', 'are', 'what', 'which', 'does', 'do', 'for', 'and', 'or', 'with', 'following']);
+
+const normalizeRole = (role: string) => role.trim().toLowerCase();
+
+const questionTokens = (text: string): Set<string> =>
+  new Set(text.toLowerCase().replace(/[^a-z0-9+#\s]/g, ' ').split(/\s+/).filter(t => t && !STOP_WORDS.has(t)));
+
+export const isDuplicateQuestion = (a: string, b: string): boolean => {
+  const ta = questionTokens(a);
+  const tb = questionTokens(b);
+  if (ta.size === 0 || tb.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase();
+  const shared = [...ta].filter(t => tb.has(t)).length;
+  return shared / (ta.size + tb.size - shared) >= DUPLICATE_THRESHOLD;
+};
+
+// Questions banked before other formats existed were all single choice
+const withKind = (b: BankedQuestion): BankedQuestion =>
+  b.question.kind ? b : { ...b, question: { ...b.question, kind: 'single' } as QuizQuestion };
+
+// Reads and writes are chained so concurrent quiz requests never overwrite each other's updates
+let queue: Promise<unknown> = Promise.resolve();
+
+const updateBank = <R>(update: (questions: BankedQuestion[]) => { questions?: BankedQuestion[]; result: R }): Promise<R> => {
+  const run = queue.then(async () => {
+    const doc = await readDocument<QuestionBankDocument>(BANK_KEY);
+    const { questions, result } = update((doc?.questions || []).map(withKind));
+    if (questions) await writeDocument<QuestionBankDocument>(BANK_KEY, { version: 1, questions });
+    return result;
+  });
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+// Returns how many of the questions were new
+export const addToQuestionBank = (
+  questions: QuizQuestion[],
+  tags: { role: string; topic?: string; difficulty: QuizDifficulty }
+): Promise<number> =>
+  updateBank(bank => {
+    const now = Date.now();
+    const role = normalizeRole(tags.role);
+    const added: BankedQuestion[] = [];
+    questions.forEach(question => {
+      const pool = [...bank, ...added].filter(b => b.role === role);
+      if (pool.some(b => isDuplicateQuestion(b.question.question, question.question))) return;
+      added.push({ id: createId(), question, role, topic: tags.topic || question.category || 'Technical', difficulty: tags.difficulty, addedAt: now, timesServed: 0 });
+    });
+    if (added.length === 0) return { result: 0 };
+    // Oldest questions go first once the bank is full
+    return { questions: [...bank, ...added].slice(-MAX_QUESTIONS), result: added.length };
+  });
+
+// Picks the least-served matching questions (preferred difficulty first) and counts them as served
+export const assembleFromBank = (query: BankQuery): Promise<QuizQuestion[]> =>
+  updateBank(bank => {
+    const role = normalizeRole(query.role);
+    const exclude = query.exclude || [];
+    const candidates = bank
+      .filter(b => b.role === role && (!query.topic || b.topic === query.topic) && (!query.kinds || query.kinds.includes(b.question.kind)))
+      .filter(b => !exclude.some(text => isDuplicateQuestion(text, b.question.question)))
+      .map(b => ({ b, order: Math.random() }))
+      .sort((x, y) =>
+        Number(x.b.difficulty !== query.difficulty) - Number(y.b.difficulty !== query.difficulty) ||
+        x.b.timesServed - y.b.timesServed ||
+        x.order - y.order
+      )
+      .slice(0, query.count)
+      .map(({ b }) => b);
+
+    if (candidates.length === 0) return { result: [] };
+    const served = new Set(candidates.map(b => b.id));
+    return {
+      questions: bank.map(b => (served.has(b.id) ? { ...b, timesServed: b.timesServed + 1 } : b)),
+      result: candidates.map(b => b.question),
+    };
+  });
+
+// Recently added questions for a role, used to steer the model away from repeats
+export const recentBankedQuestions = (role: string, topic: string | undefined, limit: number): Promise<string[]> =>
+  updateBank(bank => ({
+    result: bank
+      .filter(b => b.role === normalizeRole(role) && (!topic || b.topic === topic))
+      .slice(-limit)
+      .map(b => b.question.question),
+  }));
+
+export const countBankedQuestions = (): Promise<number> => updateBank(bank => ({ result: bank.length }));
+
+// --- Preference: draw quizzes from the bank instead of spending API quota ---
+
+const PREFER_BANK_KEY = 'prefer_question_bank';
+
+export const loadPreferBank = (): boolean => localStorage.getItem(PREFER_BANK_KEY) === 'true';
+
+export const savePreferBank = (prefer: boolean) => {
+  localStorage.setItem(PREFER_BANK_KEY, String(prefer));
+};
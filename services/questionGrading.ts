@@ -0,0 +1,89 @@
+import { FreeTextQuestion, QuestionGrade, QuizAnswer, QuizQuestion } from "../types";
+
+// --- ANSWER GRADING ---
+// Deterministic grading for every question kind. Free text gets a rough offline estimate here;
+// geminiService.gradeFreeTextAnswer asks the AI provider for a proper grade when one is available.
+
+const PASS_SCORE = 0.5;
+
+const UNANSWERED: QuestionGrade = { score: 0, correct: false, feedback: 'Not answered' };
+
+const normalizeText = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!?;:,]+$/, '');
+
+const sameSet = (a: number[], b: number[]) => a.length === b.length && a.every(x => b.includes(x));
+
+const KEYWORD_STOP_WORDS = new Set(['that', 'this', 'with', 'from', 'into', 'when', 'which', 'their', 'there', 'about', 'would', 'should', 'could', 'because']);
+
+const keywords = (text: string) =>
+  new Set(text.toLowerCase().replace(/[^a-z0-9+#\s]/g, ' ').split(/\s+/).filter(w => w.length > 3 && !KEYWORD_STOP_WORDS.has(w)));
+
+// Counts how many key points share at least one keyword with the answer
+export const gradeFreeTextLocally = (question: FreeTextQuestion, answer: string): QuestionGrade => {
+  if (!answer.trim()) return UNANSWERED;
+  const answerWords = keywords(answer);
+  const points = question.keyPoints.length ? question.keyPoints : [question.modelAnswer];
+  const covered = points.filter(point => [...keywords(point)].some(w => answerWords.has(w)));
+  const score = covered.length / points.length;
+  return {
+    score,
+    correct: score >= PASS_SCORE,
+    feedback: `Offline estimate: your answer touches ${covered.length} of ${points.length} key point${points.length === 1 ? '' : 's'}.`,
+  };
+};
+
+export const gradeAnswer = (question: QuizQuestion, answer: QuizAnswer | null): QuestionGrade => {
+  if (answer === null || answer === '') return UNANSWERED;
+
+  switch (question.kind) {
+    case 'single': {
+      const correct = answer === question.correctAnswer;
+      return { score: correct ? 1 : 0, correct };
+    }
+    case 'multi': {
+      const picked = Array.isArray(answer) ? answer : [];
+      const hits = picked.filter(i => question.correctAnswers.includes(i)).length;
+      const wrong = picked.length - hits;
+      // Wrong picks cancel out right ones so selecting everything earns nothing
+      const score = Math.max(0, (hits - wrong) / question.correctAnswers.length);
+      return { score, correct: sameSet(picked, question.correctAnswers) };
+    }
+    case 'true-false': {
+      const correct = answer === question.correctAnswer;
+      return { score: correct ? 1 : 0, correct };
+    }
+    case 'fill-in': {
+      const correct = typeof answer === 'string' && question.acceptedAnswers.some(a => normalizeText(a) === normalizeText(answer));
+      return { score: correct ? 1 : 0, correct };
+    }
+    case 'ordering': {
+      const order = Array.isArray(answer) ? answer : [];
+      const inPlace = order.filter((itemIndex, position) => itemIndex === position).length;
+      return { score: inPlace / question.items.length, correct: inPlace === question.items.length };
+    }
+    case 'free-text':
+      return gradeFreeTextLocally(question, typeof answer === 'string' ? answer : '');
+  }
+};
+
+// Human-readable correct answer, for review screens
+export const describeCorrectAnswer = (question: QuizQuestion): string => {
+  switch (question.kind) {
+    case 'single': return question.options[question.correctAnswer];
+    case 'multi': return question.correctAnswers.map(i => question.options[i]).join(', ');
+    case 'true-false': return question.correctAnswer ? 'True' : 'False';
+    case 'fill-in': return question.acceptedAnswers.join(' / ');
+    case 'ordering': return question.items.join(' → ');
+    case 'free-text': return question.modelAnswer;
+  }
+};
+
+export const describeAnswer = (question: QuizQuestion, answer: QuizAnswer | null): string => {
+  if (answer === null || answer === '') return 'Not answered';
+  switch (question.kind) {
+    case 'single': return typeof answer === 'number' ? question.options[answer] : '';
+    case 'multi': return Array.isArray(answer) ? answer.map(i => question.options[i]).join(', ') || 'Nothing selected' : '';
+    case 'true-false': return answer ? 'True' : 'False';
+    case 'ordering': return Array.isArray(answer) ? answer.map(i => question.items[i]).join(' → ') : '';
+    default: return String(answer);
+  }
+};
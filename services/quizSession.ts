@@ -0,0 +1,217 @@
+import { ExamTiming, QuestionGrade, QuestionKind, QuizAnswer, QuizAttempt, QuizDifficulty, QuizQuestion, QuizSession, ServiceResult } from "../types";
+import { gradeAnswer } from "./questionGrading";
+import { createId } from "./workspace";
+
+// --- QUIZ SESSIONS ---
+// Pure helpers for a quiz run; sessions are stored in track artifacts so a reload resumes mid-quiz.
+
+export const createQuizSession = ({ data, ...status }: ServiceResult<QuizQuestion[]>, difficulty: QuizDifficulty, timing?: ExamTiming, kinds?: QuestionKind[]): QuizSession => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    difficulty,
+    questions: data,
+    status,
+    answers: data.map(() => null),
+    grades: data.map(() => null),
+    timesMs: data.map(() => 0),
+    currentIndex: 0,
+    finished: false,
+    startedAt: now,
+    questionStartedAt: now,
+    ...(timing && { timing, pausedAt: null, pausesUsed: 0 }),
+    ...(kinds && { kinds }),
+  };
+};
+
+// Records the answer for the current question and moves on, finishing after the last one.
+// Adaptive sessions instead move past the loaded questions and wait for the next batch.
+// Free-text answers pass in the AI grade; everything else is graded here.
+export const answerCurrentQuestion = (
+  session: QuizSession,
+  answer: QuizAnswer | null,
+  now: number = Date.now(),
+  grade: QuestionGrade = gradeAnswer(session.questions[session.currentIndex], answer)
+): QuizSession => {
+  const index = session.currentIndex;
+  const moreToCome = !!session.adaptive && session.questions.length < session.adaptive.targetCount;
+  const isLast = index >= session.questions.length - 1 && !moreToCome;
+  return {
+    ...session,
+    answers: session.answers.map((a, i) => (i === index ? answer : a)),
+    grades: session.grades.map((g, i) => (i === index ? grade : g)),
+    timesMs: session.timesMs.map((t, i) => (i === index ? t + (now - session.questionStartedAt) : t)),
+    currentIndex: isLast ? index : index + 1,
+    finished: isLast,
+    questionStartedAt: now,
+  };
+};
+
+export const countCorrect = (session: Pick<QuizSession, 'grades'>): number =>
+  session.grades.filter(g => g?.correct).length;
+
+export const totalTimeMs = (attempt: Pick<QuizAttempt, 'timesMs'>): number => attempt.timesMs.reduce((sum, t) => sum + t, 0);
+
+export const toQuizAttempt = (session: QuizSession): QuizAttempt => ({
+  id: session.id,
+  difficulty: session.difficulty,
+  questions: session.questions,
+  answers: session.answers,
+  grades: session.grades,
+  timesMs: session.timesMs,
+  correctCount: countCorrect(session),
+  startedAt: session.startedAt,
+  finishedAt: session.questionStartedAt, // set to the time of the final answer
+  ...(session.timing && { timing: session.timing }),
+  ...(session.adaptive && { levels: session.adaptive.levels }),
+});
+
+// Newest first; re-recording the same session replaces its entry
+export const addQuizAttempt = (history: QuizAttempt[] = [], attempt: QuizAttempt): QuizAttempt[] =>
+  [attempt, ...history.filter(a => a.id !== attempt.id)];
+
+export const scorePercent = (attempt: Pick<QuizAttempt, 'questions' | 'correctCount'>): number =>
+  attempt.questions.length ? Math.round((attempt.correctCount / attempt.questions.length) * 100) : 0;
+
+export interface CategoryScore {
+  category: string;
+  correct: number;
+  total: number;
+}
+
+// Questions without a category are grouped under "General"
+export const scoreByCategory = (attempt: Pick<QuizAttempt, 'questions' | 'grades'>): CategoryScore[] => {
+  const scores = new Map<string, CategoryScore>();
+  attempt.questions.forEach((q, i) => {
+    const category = q.category || 'General';
+    const entry = scores.get(category) || { category, correct: 0, total: 0 };
+    entry.total += 1;
+    if (attempt.grades[i]?.correct) entry.correct += 1;
+    scores.set(category, entry);
+  });
+  return Array.from(scores.values());
+};
+
+// --- Mock test pass mark (device setting, like the AI provider) ---
+
+const PASS_THRESHOLD_KEY = 'mock_pass_threshold';
+export const DEFAULT_PASS_THRESHOLD = 70;
+
+export const loadPassThreshold = (): number => {
+  const stored = parseInt(localStorage.getItem(PASS_THRESHOLD_KEY) || '', 10);
+  return Number.isNaN(stored) ? DEFAULT_PASS_THRESHOLD : Math.min(100, Math.max(0, stored));
+};
+
+export const savePassThreshold = (threshold: number) => {
+  localStorage.setItem(PASS_THRESHOLD_KEY, String(Math.min(100, Math.max(0, Math.round(threshold)))));
+};
+
+// --- Exam mode ---
+// The clock is wall time: it keeps running across reloads and only stops while the exam is paused.
+
+const runningMs = (session: QuizSession, now: number) => (session.pausedAt ? 0 : now - session.questionStartedAt);
+
+// Remaining time in ms, or null where that limit is not set
+export const remainingTime = (session: QuizSession, now: number = Date.now()): { total: number | null; question: number | null } => {
+  const { timing } = session;
+  if (!timing || session.finished || awaitingQuestions(session)) return { total: null, question: null };
+  const running = runningMs(session, now);
+  const spent = totalTimeMs(session) + running;
+  return {
+    total: timing.totalSeconds !== null ? timing.totalSeconds * 1000 - spent : null,
+    question: timing.perQuestionSeconds !== null ? timing.perQuestionSeconds * 1000 - (session.timesMs[session.currentIndex] + running) : null,
+  };
+};
+
+// Auto-submits whatever has run out: the whole exam, or the current question (left unanswered).
+// Loops so an exam reopened long after its limits passed catches up in one step.
+export const expireSession = (session: QuizSession, now: number = Date.now()): QuizSession => {
+  let current = session;
+  while (!current.finished && !current.pausedAt) {
+    const { total, question } = remainingTime(current, now);
+    // Apply whichever deadline passed first, so a long absence is replayed in order
+    if (question !== null && question <= 0 && (total === null || question <= total)) {
+      current = answerCurrentQuestion(current, null, now + question);
+      continue;
+    }
+    if (total !== null && total <= 0) {
+      // Charge only the time up to the deadline to the current question
+      const deadline = now + total;
+      return {
+        ...current,
+        timesMs: current.timesMs.map((t, i) => (i === current.currentIndex ? t + (deadline - current.questionStartedAt) : t)),
+        finished: true,
+        questionStartedAt: deadline,
+      };
+    }
+    return current;
+  }
+  return current;
+};
+
+export const canPause = (session: QuizSession): boolean =>
+  !!session.timing && !session.finished && !session.pausedAt && !awaitingQuestions(session) && (session.pausesUsed || 0) < session.timing.maxPauses;
+
+export const pauseSession = (session: QuizSession, now: number = Date.now()): QuizSession => {
+  if (!canPause(session)) return session;
+  return {
+    ...session,
+    timesMs: session.timesMs.map((t, i) => (i === session.currentIndex ? t + (now - session.questionStartedAt) : t)),
+    pausedAt: now,
+    pausesUsed: (session.pausesUsed || 0) + 1,
+  };
+};
+
+export const resumeSession = (session: QuizSession, now: number = Date.now()): QuizSession =>
+  session.pausedAt ? { ...session, pausedAt: null, questionStartedAt: now } : session;
+
+// --- Adaptive difficulty ---
+
+const LEVELS: QuizDifficulty[] = ['Easy', 'Medium', 'Hard'];
+export const ADAPTIVE_BATCH_SIZE = 3;
+export const ADAPTIVE_QUESTION_COUNT = 9;
+
+export const startingDifficulty = (yearsOfExperience: number): QuizDifficulty =>
+  yearsOfExperience < 2 ? 'Easy' : yearsOfExperience < 5 ? 'Medium' : 'Hard';
+
+export const createAdaptiveSession = (result: ServiceResult<QuizQuestion[]>, level: QuizDifficulty, timing?: ExamTiming, kinds?: QuestionKind[]): QuizSession => {
+  const session = createQuizSession(result, level, timing, kinds);
+  return {
+    ...session,
+    adaptive: { targetCount: ADAPTIVE_QUESTION_COUNT, batchSize: ADAPTIVE_BATCH_SIZE, levels: result.data.map(() => level) },
+  };
+};
+
+// True while an adaptive session has answered everything loaded and waits for its next batch
+export const awaitingQuestions = (session: QuizSession): boolean =>
+  !session.finished && session.currentIndex >= session.questions.length;
+
+// Step up after a mostly correct batch, down after a mostly wrong one
+export const nextDifficulty = (session: QuizSession): QuizDifficulty => {
+  const levels = session.adaptive?.levels || [];
+  const current = levels[levels.length - 1] || session.difficulty;
+  const batch = session.adaptive?.batchSize || ADAPTIVE_BATCH_SIZE;
+  const recent = session.grades.slice(-batch);
+  const ratio = recent.filter(g => g?.correct).length / recent.length;
+  const step = ratio >= 2 / 3 ? 1 : ratio <= 1 / 3 ? -1 : 0;
+  return LEVELS[Math.min(LEVELS.length - 1, Math.max(0, LEVELS.indexOf(current) + step))];
+};
+
+export const appendAdaptiveBatch = ({ data, ...status }: ServiceResult<QuizQuestion[]>, session: QuizSession, level: QuizDifficulty, now: number = Date.now()): QuizSession => {
+  if (!session.adaptive) return session;
+  const batch = data.slice(0, session.adaptive.targetCount - session.questions.length);
+  // Nothing usable came back: end the quiz with what was asked
+  if (batch.length === 0) return { ...session, finished: true, currentIndex: session.questions.length - 1, questionStartedAt: now };
+  return {
+    ...session,
+    // The session's difficulty tracks the latest level, which is where it converged
+    difficulty: level,
+    questions: [...session.questions, ...batch],
+    answers: [...session.answers, ...batch.map(() => null)],
+    grades: [...session.grades, ...batch.map(() => null)],
+    timesMs: [...session.timesMs, ...batch.map(() => 0)],
+    status: status.source === 'live' ? session.status : status,
+    questionStartedAt: now,
+    adaptive: { ...session.adaptive, levels: [...session.adaptive.levels, ...batch.map(() => level)] },
+  };
+};
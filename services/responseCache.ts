@@ -0,0 +1,52 @@
+// --- LAST-KNOWN-GOOD RESPONSE CACHE ---
+// Keeps the most recent live AI responses so a failed call can show real (if stale) data instead of demo data.
+
+const CACHE_STORAGE_KEY = 'prepAiResponseCache';
+const MAX_ENTRIES = 40;
+
+interface CacheEntry {
+  savedAt: number;
+  data: unknown;
+}
+
+// FNV-1a hash, enough to key large inputs (e.g. a base64 document) without storing them
+const hashString = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+export const cacheKey = (context: string, args: unknown[]): string => `${context}:${hashString(JSON.stringify(args))}`;
+
+const readAll = (): Record<string, CacheEntry> => {
+  try {
+    const saved = localStorage.getItem(CACHE_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+export const readCache = <T>(key: string): { data: T; savedAt: number } | null => {
+  const entry = readAll()[key];
+  return entry ? { data: entry.data as T, savedAt: entry.savedAt } : null;
+};
+
+export const writeCache = (key: string, data: unknown) => {
+  const entries = readAll();
+  entries[key] = { savedAt: Date.now(), data };
+
+  // Evict the oldest entries beyond the limit
+  const trimmed = Object.entries(entries)
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(0, MAX_ENTRIES);
+
+  try {
+    localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(Object.fromEntries(trimmed)));
+  } catch (e) {
+    console.warn("Response cache is full, skipping write.");
+  }
+};
@@ -0,0 +1,126 @@
+import { ParsedResume, SuggestedRole } from "../types";
+
+// --- OFFLINE RESUME HEURISTICS ---
+// A rough ParsedResume (or job posting role) built from the user's own text when no AI provider is reachable.
+
+const SKILL_DICTIONARY = [
+  'JavaScript', 'TypeScript', 'React', 'React Native', 'Angular', 'Vue', 'Next.js', 'Redux', 'HTML', 'CSS',
+  'Tailwind CSS', 'Sass', 'Webpack', 'Vite', 'Node.js', 'Express', 'NestJS', 'GraphQL', 'REST', 'Python',
+  'Django', 'Flask', 'FastAPI', 'Java', 'Spring', 'Kotlin', 'Swift', 'Flutter', 'Dart', 'C', 'C++', 'C#',
+  '.NET', 'Go', 'Rust', 'Ruby', 'Rails', 'PHP', 'Laravel', 'Scala', 'SQL', 'PostgreSQL', 'MySQL', 'MongoDB',
+  'Redis', 'Elasticsearch', 'Kafka', 'RabbitMQ', 'AWS', 'Azure', 'GCP', 'Docker', 'Kubernetes', 'Terraform',
+  'CI/CD', 'Jenkins', 'GitHub Actions', 'Linux', 'Git', 'Microservices', 'System Design', 'Machine Learning',
+  'Deep Learning', 'TensorFlow', 'PyTorch', 'Pandas', 'NumPy', 'scikit-learn', 'Data Analysis', 'Tableau',
+  'Power BI', 'Excel', 'Spark', 'Hadoop', 'Jest', 'Cypress', 'Selenium', 'Agile', 'Scrum', 'Figma',
+  'Product Management', 'Project Management', 'Communication', 'Leadership'
+];
+
+interface RoleTemplate {
+  title: string;
+  skills: string[];
+}
+
+const ROLE_TEMPLATES: RoleTemplate[] = [
+  { title: 'Frontend Engineer', skills: ['JavaScript', 'TypeScript', 'React', 'CSS', 'HTML', 'Next.js', 'Redux', 'Jest'] },
+  { title: 'Backend Engineer', skills: ['Node.js', 'Java', 'Python', 'Go', 'SQL', 'PostgreSQL', 'REST', 'Microservices', 'Redis'] },
+  { title: 'Full Stack Developer', skills: ['JavaScript', 'TypeScript', 'React', 'Node.js', 'SQL', 'REST', 'Docker', 'Git'] },
+  { title: 'Mobile Developer', skills: ['React Native', 'Flutter', 'Swift', 'Kotlin', 'Dart', 'Java', 'Git'] },
+  { title: 'Data Scientist', skills: ['Python', 'Machine Learning', 'Pandas', 'NumPy', 'scikit-learn', 'SQL', 'Data Analysis', 'Deep Learning'] },
+  { title: 'Data Analyst', skills: ['SQL', 'Excel', 'Tableau', 'Power BI', 'Python', 'Data Analysis', 'Pandas'] },
+  { title: 'DevOps Engineer', skills: ['Docker', 'Kubernetes', 'AWS', 'Terraform', 'CI/CD', 'Linux', 'Jenkins', 'GitHub Actions'] },
+  { title: 'Product Manager', skills: ['Product Management', 'Agile', 'Scrum', 'Communication', 'Leadership', 'Figma', 'Data Analysis'] },
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Skills that are also everyday English words only count when written with their usual capitalisation
+const CASE_SENSITIVE_SKILLS = new Set(['C', 'Go', 'Rust', 'Spring', 'Swift', 'Express', 'Excel', 'Spark', 'Rails', 'Dart', 'REST', 'Git']);
+
+// Word boundaries do not work around symbols such as "C++" or ".NET", so use explicit look-arounds
+const skillPattern = (skill: string) =>
+  new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(skill)}(?![A-Za-z0-9+#])`, CASE_SENSITIVE_SKILLS.has(skill) ? '' : 'i');
+
+export const matchSkills = (text: string): string[] => SKILL_DICTIONARY.filter(skill => skillPattern(skill).test(text));
+
+const guessName = (lines: string[]): string => {
+  const candidate = lines.slice(0, 8).find(line =>
+    /^[A-Za-z][A-Za-z.'-]*(\s+[A-Za-z][A-Za-z.'-]*){1,3}$/.test(line) &&
+    line.length <= 40 &&
+    !/resume|curriculum|vitae|profile/i.test(line)
+  );
+  return candidate || 'Candidate';
+};
+
+const guessYearsOfExperience = (text: string): number => {
+  // Explicit statements like "5+ years of experience"
+  const stated = [...text.matchAll(/(\d{1,2})\+?\s*(?:years|yrs)/gi)].map(m => parseInt(m[1], 10));
+  if (stated.length) return Math.max(...stated);
+
+  // Otherwise the span of employment date ranges such as "2018 - Present"
+  const currentYear = new Date().getFullYear();
+  const years: number[] = [];
+  for (const m of text.matchAll(/((?:19|20)\d{2})\s*(?:-|–|—|to)\s*((?:19|20)\d{2}|present|current|now)/gi)) {
+    years.push(parseInt(m[1], 10));
+    years.push(/^\d/.test(m[2]) ? parseInt(m[2], 10) : currentYear);
+  }
+  return years.length ? Math.max(0, Math.max(...years) - Math.min(...years)) : 0;
+};
+
+const guessSummary = (lines: string[], text: string): string => {
+  const headingIndex = lines.findIndex(line => /^(professional\s+)?(summary|profile|objective|about me)\b/i.test(line));
+  let source = text;
+  if (headingIndex >= 0) {
+    const section = lines.slice(headingIndex + 1, headingIndex + 5);
+    const nextHeading = section.findIndex(line => /^(work\s+)?(experience|education|skills|projects|certifications|employment)\b/i.test(line));
+    source = (nextHeading >= 0 ? section.slice(0, nextHeading) : section).join(' ');
+  }
+  const words = source.split(/\s+/).filter(Boolean).slice(0, 50);
+  return words.join(' ') + (words.length === 50 ? '...' : '');
+};
+
+export const suggestRolesForSkills = (skills: string[]): SuggestedRole[] => {
+  const owned = new Set(skills.map(s => s.toLowerCase()));
+
+  return ROLE_TEMPLATES
+    .map(template => {
+      const matched = template.skills.filter(s => owned.has(s.toLowerCase()));
+      const missing = template.skills.filter(s => !owned.has(s.toLowerCase()));
+      return {
+        title: template.title,
+        matchScore: Math.round((matched.length / template.skills.length) * 100),
+        reasoning: matched.length
+          ? `Offline estimate: your document mentions ${matched.join(', ')}.`
+          : 'Offline estimate: no matching skills were found in your document.',
+        requiredSkills: missing.length ? missing.slice(0, 5) : template.skills.slice(0, 5)
+      };
+    })
+    .sort((a, b) => b.matchScore - a.matchScore)
+    .slice(0, 3);
+};
+
+export const buildHeuristicResume = (text: string): ParsedResume => {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  const skills = matchSkills(text);
+
+  return {
+    fullName: guessName(lines),
+    summary: guessSummary(lines, text),
+    skills,
+    yearsOfExperience: guessYearsOfExperience(text),
+    suggestedRoles: suggestRolesForSkills(skills)
+  };
+};
+
+const ROLE_TITLE_PATTERN = /\b(engineer|developer|manager|analyst|scientist|designer|architect|lead|intern|specialist|consultant|administrator)\b/i;
+
+export const buildHeuristicJobRole = (jobDescription: string): SuggestedRole => {
+  const lines = jobDescription.split('\n').map(l => l.trim()).filter(Boolean);
+  const titleLine = lines.slice(0, 10).find(line => ROLE_TITLE_PATTERN.test(line) && line.length <= 80);
+
+  return {
+    title: titleLine ? titleLine.replace(/^(job\s+title|position|role)\s*:\s*/i, '') : 'Target Role',
+    matchScore: 0,
+    reasoning: 'Offline estimate: required skills were picked out of the posting by keyword matching.',
+    requiredSkills: matchSkills(jobDescription)
+  };
+};
@@ -0,0 +1,55 @@
+import { QuizAttempt, ReviewCard } from "../types";
+import { createId } from "./workspace";
+
+// --- SPACED-REPETITION REVIEW DECK ---
+// SM-2 scheduling for questions the candidate got wrong. Everything is local, so reviews work offline.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Recall quality on the SM-2 0-5 scale; below 3 counts as forgotten
+export type RecallQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+const sameQuestion = (a: ReviewCard, text: string) => a.question.question.trim().toLowerCase() === text.trim().toLowerCase();
+
+// Wrong or unanswered questions become cards due now; a card missed again is reset as a lapse
+export const addMissedQuestions = (deck: ReviewCard[] = [], attempt: QuizAttempt, source: ReviewCard['source'], now: number = Date.now()): ReviewCard[] => {
+  const next = [...deck];
+  attempt.questions.forEach((question, i) => {
+    if (attempt.grades[i]?.correct) return;
+    const index = next.findIndex(card => sameQuestion(card, question.question));
+    if (index >= 0) {
+      next[index] = { ...next[index], question, repetitions: 0, intervalDays: 0, lapses: next[index].lapses + 1, dueAt: now };
+    } else {
+      next.push({ id: createId(), question, source, easeFactor: INITIAL_EASE, intervalDays: 0, repetitions: 0, lapses: 0, dueAt: now });
+    }
+  });
+  return next;
+};
+
+export const reviewCard = (card: ReviewCard, quality: RecallQuality, now: number = Date.now()): ReviewCard => {
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (quality < 3) {
+    // Forgotten: start over and see it again tomorrow
+    return { ...card, easeFactor, repetitions: 0, intervalDays: 1, lapses: card.lapses + 1, dueAt: now + DAY_MS, lastReviewedAt: now };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.intervalDays * easeFactor);
+  return { ...card, easeFactor, repetitions, intervalDays, dueAt: now + intervalDays * DAY_MS, lastReviewedAt: now };
+};
+
+// Oldest due first
+export const dueCards = (deck: ReviewCard[] = [], now: number = Date.now()): ReviewCard[] =>
+  deck.filter(card => card.dueAt <= now).sort((a, b) => a.dueAt - b.dueAt);
+
+export const nextDueAt = (deck: ReviewCard[] = []): number | null =>
+  deck.length ? Math.min(...deck.map(card => card.dueAt)) : null;
+
+export const replaceCard = (deck: ReviewCard[] = [], card: ReviewCard): ReviewCard[] =>
+  deck.map(c => (c.id === card.id ? card : c));
+
+export const removeCard = (deck: ReviewCard[] = [], cardId: string): ReviewCard[] =>
+  deck.filter(c => c.id !== cardId);
@@ -0,0 +1,13 @@
+import { RubricRating } from "../types";
+
+// --- RUBRIC SCORING ---
+// Shared by the system design, STAR and live interview rubrics.
+
+// Average of the rated criteria on a 0-100 scale (1 maps to 0, 5 to 100); null when nothing could be rated
+export const rubricScore = <K extends string>(rubric: Record<K, RubricRating>, criteria: { id: K }[]): number | null => {
+  const ratings = criteria.map(c => rubric[c.id].score).filter((score): score is number => score !== null);
+  if (ratings.length === 0) return null;
+  return Math.round((ratings.reduce((sum, score) => sum + (score - 1) / 4, 0) / ratings.length) * 100);
+};
+
+export const countWords = (text: string): number => text.trim().split(/\s+/).filter(Boolean).length;
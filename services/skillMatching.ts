@@ -0,0 +1,80 @@
+import { SkillMatch } from "../types";
+
+// --- SKILL GAP SCORING ---
+// Compares a role's required skills against the candidate's skills without calling the model,
+// so the breakdown is deterministic and works offline.
+
+const ALIASES: Record<string, string> = {
+  'js': 'javascript',
+  'ts': 'typescript',
+  'node': 'nodejs',
+  'reactjs': 'react',
+  'vuejs': 'vue',
+  'postgres': 'postgresql',
+  'k8s': 'kubernetes',
+  'golang': 'go',
+  'ml': 'machine learning',
+  'dl': 'deep learning',
+  'gcp': 'google cloud',
+  'amazon web services': 'aws',
+  'cicd': 'ci cd',
+};
+
+// Skills in the same family count as a partial match (e.g. AWS experience for a GCP role)
+const SKILL_FAMILIES: string[][] = [
+  ['aws', 'azure', 'google cloud'],
+  ['react', 'vue', 'angular', 'svelte'],
+  ['postgresql', 'mysql', 'sql', 'sql server', 'oracle'],
+  ['mongodb', 'dynamodb', 'cassandra', 'couchdb'],
+  ['docker', 'kubernetes', 'podman'],
+  ['jenkins', 'github actions', 'gitlab ci', 'ci cd', 'circleci'],
+  ['java', 'kotlin', 'scala'],
+  ['javascript', 'typescript'],
+  ['tensorflow', 'pytorch', 'keras'],
+  ['machine learning', 'deep learning'],
+  ['tableau', 'power bi', 'looker'],
+  ['jest', 'mocha', 'vitest', 'cypress', 'playwright', 'selenium'],
+  ['kafka', 'rabbitmq', 'sqs'],
+];
+
+const STOP_WORDS = new Set(['and', 'or', 'of', 'the', 'with', 'in', 'for', 'to', 'experience', 'knowledge', 'skills', 'advanced', 'basic', 'strong']);
+
+export const normalizeSkill = (skill: string): string => {
+  const cleaned = skill
+    .toLowerCase()
+    .replace(/\.js\b/g, 'js')
+    .replace(/[^a-z0-9+#\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return ALIASES[cleaned.replace(/\s/g, '')] || ALIASES[cleaned] || cleaned;
+};
+
+const tokens = (normalized: string) => normalized.split(' ').filter(t => t.length > 1 && !STOP_WORDS.has(t));
+
+const sameFamily = (a: string, b: string) => SKILL_FAMILIES.some(family => family.includes(a) && family.includes(b));
+
+const classify = (required: string, owned: string[]): SkillMatch => {
+  const target = normalizeSkill(required);
+
+  const exact = owned.find(skill => normalizeSkill(skill) === target);
+  if (exact) return { skill: required, status: 'matched', evidence: exact };
+
+  // "Advanced React" vs "React", "React Native" vs "React", shared keywords, or same technology family
+  const related = owned.find(skill => {
+    const candidate = normalizeSkill(skill);
+    const targetTokens = tokens(target);
+    // Whole keywords only: "Java" must not partially match "JavaScript"
+    return tokens(candidate).some(t => targetTokens.includes(t)) || sameFamily(candidate, target);
+  });
+  if (related) return { skill: required, status: 'partial', evidence: related };
+
+  return { skill: required, status: 'missing' };
+};
+
+export const scoreSkillMatch = (requiredSkills: string[], ownedSkills: string[]): { matchScore: number; breakdown: SkillMatch[] } => {
+  const breakdown = requiredSkills.map(skill => classify(skill, ownedSkills));
+  if (breakdown.length === 0) return { matchScore: 0, breakdown };
+
+  const points = breakdown.reduce((sum, m) => sum + (m.status === 'matched' ? 1 : m.status === 'partial' ? 0.5 : 0), 0);
+  return { matchScore: Math.round((points / breakdown.length) * 100), breakdown };
+};
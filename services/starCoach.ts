@@ -0,0 +1,132 @@
+import { BehavioralPractice, BehavioralQuestion, BehavioralStory, RubricRating, ServiceResult, StarCriterion, StarFeedback } from "../types";
+import { createId } from "./workspace";
+import { countWords, rubricScore } from "./rubric";
+
+// --- BEHAVIORAL ANSWER COACH (STAR) ---
+// Pure helpers for written behavioral practice and the profile's story bank.
+
+export const STAR_CRITERIA: { id: StarCriterion; label: string; hint: string }[] = [
+  { id: 'situation', label: 'Situation', hint: 'Where and when it happened, and why it mattered' },
+  { id: 'task', label: 'Task', hint: 'What you in particular were responsible for' },
+  { id: 'action', label: 'Action', hint: 'The steps you took yourself, not the team' },
+  { id: 'result', label: 'Result', hint: 'The outcome, ideally measured, and what you learned' },
+  { id: 'specificity', label: 'Specificity', hint: 'Concrete names, numbers and details rather than generalities' },
+];
+
+// A spoken answer of two to three minutes is roughly 150-400 words
+export const MIN_ANSWER_WORDS = 150;
+export const MAX_ANSWER_WORDS = 400;
+
+export const lengthVerdict = (words: number): StarFeedback['lengthVerdict'] =>
+  words < MIN_ANSWER_WORDS ? 'short' : words > MAX_ANSWER_WORDS ? 'long' : 'good';
+
+export const createBehavioralPractice = ({ data, ...status }: ServiceResult<BehavioralQuestion[]>): BehavioralPractice => ({
+  id: createId(),
+  questions: data,
+  status,
+  answers: data.map(() => ''),
+  feedback: data.map(() => null),
+  storyIds: data.map(() => null),
+});
+
+export const setPracticeAnswer = (practice: BehavioralPractice, index: number, answer: string): BehavioralPractice => ({
+  ...practice,
+  answers: practice.answers.map((a, i) => (i === index ? answer : a)),
+});
+
+export const setPracticeFeedback = (practice: BehavioralPractice, index: number, feedback: ServiceResult<StarFeedback>): BehavioralPractice => ({
+  ...practice,
+  feedback: practice.feedback.map((f, i) => (i === index ? feedback : f)),
+});
+
+export const setPracticeStory = (practice: BehavioralPractice, index: number, storyId: string | null): BehavioralPractice => ({
+  ...practice,
+  storyIds: practice.storyIds.map((s, i) => (i === index ? storyId : s)),
+});
+
+export const starScore = (feedback: Pick<StarFeedback, 'rubric'>): number | null => rubricScore(feedback.rubric, STAR_CRITERIA);
+
+// --- Offline scoring ---
+// Looks for the phrases STAR answers typically use; a rough guide until an AI provider is available.
+
+const STAR_CUES: Record<Exclude<StarCriterion, 'specificity'>, RegExp[]> = {
+  situation: [/\b(when|while) (i|we) (was|were|worked)\b/i, /\b(at|in) my (previous|last|current) (role|job|team|company)\b/i, /\bour (team|company|product|client)\b/i, /\b(last|this) (year|quarter|month)\b/i, /\bsituation\b/i],
+  task: [/\b(i|my) (was|were) (responsible|tasked|asked|expected)\b/i, /\bmy (goal|job|task|role|responsibility) was\b/i, /\b(i|we) (had|needed) to\b/i, /\bthe (goal|challenge|problem) was\b/i],
+  action: [/\bi (decided|built|created|led|organized|organised|proposed|wrote|designed|implemented|set up|reached out|scheduled|analyzed|analysed|changed|introduced|negotiated|started)\b/i, /\bso i\b/i, /\bfirst,? i\b/i, /\bthen i\b/i],
+  result: [/\bas a result\b/i, /\b(reduced|increased|improved|saved|cut|grew|raised|shipped|launched|delivered)\b/i, /\d+\s?(%|percent|x\b|hours|days|weeks|users|customers)/i, /\b(in the end|eventually|ultimately|outcome|learned|learnt)\b/i],
+};
+
+const cueRating = (answer: string, cues: RegExp[], missing: string): RubricRating => {
+  const hits = cues.filter(cue => cue.test(answer)).length;
+  const score = hits === 0 ? 1 : hits === 1 ? 3 : hits === 2 ? 4 : 5;
+  return { score, comment: hits === 0 ? missing : `Found ${hits} typical ${hits === 1 ? 'cue' : 'cues'} for this part.` };
+};
+
+export const buildLocalStarFeedback = (answer: string, now: number = Date.now()): StarFeedback => {
+  const words = countWords(answer);
+  const numbers = (answer.match(/\d+/g) || []).length;
+  // Capitalised words mid-sentence are usually products, tools, teams or companies
+  const names = (answer.match(/(?<![.!?]\s)(?<!^)\b[A-Z][a-zA-Z0-9]+/g) || []).length;
+  const specificityHits = Math.min(4, numbers + Math.floor(names / 2));
+
+  return {
+    rubric: {
+      situation: cueRating(answer, STAR_CUES.situation, 'Set the scene: where you were and what was at stake.'),
+      task: cueRating(answer, STAR_CUES.task, 'Say what you were personally responsible for.'),
+      action: cueRating(answer, STAR_CUES.action, 'Describe the steps you took, using "I" rather than "we".'),
+      result: cueRating(answer, STAR_CUES.result, 'Finish with the outcome, measured if you can.'),
+      specificity: {
+        score: 1 + specificityHits,
+        comment: numbers ? `${numbers} number${numbers === 1 ? '' : 's'} and some named details.` : 'Add numbers and names: team size, metrics, tools, timelines.',
+      },
+    },
+    wordCount: words,
+    lengthVerdict: lengthVerdict(words),
+    summary: 'Offline estimate from the phrasing of your answer. Connect an AI provider for detailed feedback and a suggested rewrite.',
+    suggestedRewrite: '',
+    scoredAnswer: answer,
+    scoredAt: now,
+  };
+};
+
+// --- Story bank ---
+
+export const saveStory = (
+  stories: BehavioralStory[] = [],
+  entry: { id?: string | null; title: string; competency: string; question: string; answer: string; score: number | null; role: string },
+  now: number = Date.now()
+): { stories: BehavioralStory[]; id: string } => {
+  const existing = entry.id ? stories.find(s => s.id === entry.id) : undefined;
+  if (existing) {
+    const updated: BehavioralStory = {
+      ...existing,
+      title: entry.title,
+      answer: entry.answer,
+      score: entry.score,
+      roles: existing.roles.includes(entry.role) ? existing.roles : [...existing.roles, entry.role],
+      updatedAt: now,
+    };
+    return { stories: stories.map(s => (s.id === existing.id ? updated : s)), id: existing.id };
+  }
+  const story: BehavioralStory = {
+    id: createId(),
+    title: entry.title,
+    competency: entry.competency,
+    question: entry.question,
+    answer: entry.answer,
+    score: entry.score,
+    roles: [entry.role],
+    createdAt: now,
+    updatedAt: now,
+  };
+  return { stories: [story, ...stories], id: story.id };
+};
+
+export const removeStory = (stories: BehavioralStory[] = [], id: string): BehavioralStory[] => stories.filter(s => s.id !== id);
+
+// Stories for the same competency come first when picking one to reuse
+export const rankStoriesFor = (stories: BehavioralStory[] = [], competency: string): BehavioralStory[] =>
+  [...stories].sort((a, b) =>
+    Number(b.competency.toLowerCase() === competency.toLowerCase()) - Number(a.competency.toLowerCase() === competency.toLowerCase()) ||
+    b.updatedAt - a.updatedAt
+  );
@@ -0,0 +1,288 @@
+import { AppStep, Workspace } from "../types";
+import { gradeAnswer } from "./questionGrading";
+import { transcriptFromLogs } from "./transcript";
+import { PROFILE_STEPS, createEmptyWorkspace, createId, createProfile, selectRoleTrack } from "./workspace";
+
+// --- INDEXEDDB PERSISTENCE ---
+// The whole workspace is stored as one versioned document. DB_VERSION tracks the IndexedDB
+// object store layout; SCHEMA_VERSION tracks the shape of the document and is upgraded by MIGRATIONS.
+
+const DB_NAME = 'prepAi';
+const DB_VERSION = 1;
+const STATE_STORE = 'state';
+const WORKSPACE_KEY = 'workspace';
+
+// Pre-IndexedDB localStorage formats
+const LEGACY_STATE_KEY = 'prepAiState';         // schema 1: { resume, resumeStatus, targetRole, completedSteps }
+const LEGACY_WORKSPACE_KEY = 'prepAiWorkspace'; // schema 2: Workspace without track artifacts
+
+export const SCHEMA_VERSION = 6;
+
+export interface PersistedWorkspace {
+  schemaVersion: number;
+  savedAt: number;
+  workspace: Workspace;
+}
+
+// MIGRATIONS[n] upgrades a document from schema n + 1 to n + 2
+const MIGRATIONS: ((doc: any) => any)[] = [
+  // 1 -> 2: single saved state becomes one profile with one role track
+  (legacy) => {
+    const steps: AppStep[] = legacy.completedSteps || [];
+    let profile = createProfile(legacy.resume?.fullName || 'My Profile', legacy.resume || null);
+    profile = { ...profile, resumeStatus: legacy.resumeStatus || null, completedSteps: steps.filter(s => PROFILE_STEPS.includes(s)) };
+    if (legacy.targetRole) {
+      profile = selectRoleTrack(profile, legacy.targetRole);
+      profile.tracks[0].completedSteps = steps.filter(s => !PROFILE_STEPS.includes(s));
+    }
+    return { profiles: [profile], activeProfileId: profile.id };
+  },
+  // 2 -> 3: tracks gain an artifacts bag for generated content and answers
+  (workspace) => ({
+    ...workspace,
+    profiles: workspace.profiles.map((p: any) => ({
+      ...p,
+      tracks: p.tracks.map((t: any) => ({ ...t, artifacts: t.artifacts || {} })),
+    })),
+  }),
+  // 3 -> 4: quiz sessions record an id, difficulty and per-question timings
+  (workspace) => {
+    const upgradeSession = (session: any, startedAt: number) => session && {
+      id: createId(),
+      difficulty: 'Medium',
+      timesMs: session.questions.map(() => 0),
+      startedAt,
+      questionStartedAt: startedAt,
+      ...session,
+    };
+    return {
+      ...workspace,
+      profiles: workspace.profiles.map((p: any) => ({
+        ...p,
+        tracks: p.tracks.map((t: any) => ({
+          ...t,
+          artifacts: {
+            ...t.artifacts,
+            technicalQuiz: upgradeSession(t.artifacts.technicalQuiz, t.updatedAt),
+            mockTest: upgradeSession(t.artifacts.mockTest, t.updatedAt),
+          },
+        })),
+      })),
+    };
+  },
+  // 4 -> 5: questions gain a kind (everything before was single choice) and answers are stored with their grade
+  (workspace) => {
+    const withKind = (question: any) => ({ kind: 'single', ...question });
+    const upgradeRun = (run: any) => {
+      if (!run) return run;
+      const questions = run.questions.map(withKind);
+      // Questions already passed over without an answer were skipped; later ones are still open
+      const settled = (i: number) => run.finished !== false || i < run.currentIndex;
+      return {
+        ...run,
+        questions,
+        grades: questions.map((q: any, i: number) => (run.answers[i] !== null || settled(i) ? gradeAnswer(q, run.answers[i]) : null)),
+      };
+    };
+    return {
+      ...workspace,
+      profiles: workspace.profiles.map((p: any) => ({
+        ...p,
+        tracks: p.tracks.map((t: any) => ({
+          ...t,
+          artifacts: {
+            ...t.artifacts,
+            technicalQuiz: upgradeRun(t.artifacts.technicalQuiz),
+            mockTest: upgradeRun(t.artifacts.mockTest),
+            quizHistory: t.artifacts.quizHistory?.map(upgradeRun),
+            mockHistory: t.artifacts.mockHistory?.map(upgradeRun),
+            reviewDeck: t.artifacts.reviewDeck?.map((card: any) => ({ ...card, question: withKind(card.question) })),
+          },
+        })),
+      })),
+    };
+  },
+  // 5 -> 6: interview transcripts become typed turns and events instead of prefixed strings
+  (workspace) => ({
+    ...workspace,
+    profiles: workspace.profiles.map((p: any) => ({
+      ...p,
+      tracks: p.tracks.map((t: any) => ({
+        ...t,
+        artifacts: {
+          ...t.artifacts,
+          interviews: t.artifacts.interviews?.map(({ logs, ...session }: any) => ({
+            ...session,
+            transcript: session.transcript || transcriptFromLogs(logs || [], session.startedAt),
+          })),
+        },
+      })),
+    })),
+  }),
+];
+
+// Raised instead of silently starting fresh, so autosave never overwrites data written by a newer build
+export class NewerSchemaError extends Error {
+  constructor(version: number) {
+    super(`Saved data is from a newer version of the app (schema ${version}). Update the app to open it.`);
+    this.name = 'NewerSchemaError';
+  }
+}
+
+export const migrateWorkspace = (doc: unknown, fromVersion: number): Workspace => {
+  if (fromVersion > SCHEMA_VERSION) throw new NewerSchemaError(fromVersion);
+  let current: any = doc;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    current = MIGRATIONS[version - 1](current);
+  }
+  return current as Workspace;
+};
+
+// --- Low-level IndexedDB helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STATE_STORE)) db.createObjectStore(STATE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STATE_STORE, mode).objectStore(STATE_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Other modules keep their own documents (e.g. the question bank) in the same store under their own keys
+export const readDocument = <T>(key: string): Promise<T | undefined> =>
+  runRequest<T | undefined>('readonly', store => store.get(key));
+
+export const writeDocument = async <T>(key: string, value: T): Promise<void> => {
+  await runRequest('readwrite', store => store.put(value, key));
+};
+
+export const deleteDocument = async (key: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(key));
+};
+
+// --- Public API ---
+
+export const saveWorkspace = async (workspace: Workspace): Promise<number> => {
+  const savedAt = Date.now();
+  const doc: PersistedWorkspace = { schemaVersion: SCHEMA_VERSION, savedAt, workspace };
+  await runRequest('readwrite', store => store.put(doc, WORKSPACE_KEY));
+  return savedAt;
+};
+
+// Reads the workspace, upgrading older IndexedDB documents or importing the old localStorage saves
+export const loadWorkspace = async (): Promise<Workspace> => {
+  try {
+    const doc = await runRequest<PersistedWorkspace | undefined>('readonly', store => store.get(WORKSPACE_KEY));
+    if (doc) {
+      const workspace = migrateWorkspace(doc.workspace, doc.schemaVersion);
+      if (doc.schemaVersion < SCHEMA_VERSION) await saveWorkspace(workspace);
+      return workspace;
+    }
+
+    const legacyWorkspace = localStorage.getItem(LEGACY_WORKSPACE_KEY);
+    const legacyState = localStorage.getItem(LEGACY_STATE_KEY);
+    if (legacyWorkspace || legacyState) {
+      const workspace = legacyWorkspace
+        ? migrateWorkspace(JSON.parse(legacyWorkspace), 2)
+        : migrateWorkspace(JSON.parse(legacyState!), 1);
+      await saveWorkspace(workspace);
+      localStorage.removeItem(LEGACY_WORKSPACE_KEY);
+      localStorage.removeItem(LEGACY_STATE_KEY);
+      return workspace;
+    }
+  } catch (e) {
+    if (e instanceof NewerSchemaError) throw e;
+    console.warn("Could not read saved workspace, starting fresh.", e);
+  }
+  return createEmptyWorkspace();
+};
+
+// --- FILE EXPORT / IMPORT ---
+// Exports reuse the persisted document shape plus a format tag, so imports go through the same migrations.
+
+const EXPORT_FORMAT = 'prepai-workspace';
+
+export interface WorkspaceExport extends PersistedWorkspace {
+  format: typeof EXPORT_FORMAT;
+}
+
+export class WorkspaceImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceImportError';
+  }
+}
+
+export const exportWorkspace = (workspace: Workspace): string => {
+  const doc: WorkspaceExport = { format: EXPORT_FORMAT, schemaVersion: SCHEMA_VERSION, savedAt: Date.now(), workspace };
+  return JSON.stringify(doc, null, 2);
+};
+
+const isRecord = (input: unknown): input is Record<string, any> =>
+  typeof input === 'object' && input !== null && !Array.isArray(input);
+
+// Structural check after migration: enough to guarantee the app can render what was imported
+const checkWorkspace = (workspace: unknown): string[] => {
+  const errors: string[] = [];
+  if (!isRecord(workspace) || !Array.isArray(workspace.profiles) || workspace.profiles.length === 0) {
+    return ['the file contains no profiles'];
+  }
+  workspace.profiles.forEach((p: unknown, i: number) => {
+    if (!isRecord(p) || typeof p.id !== 'string' || typeof p.name !== 'string') {
+      errors.push(`profile ${i + 1} is missing its id or name`);
+      return;
+    }
+    if (!Array.isArray(p.completedSteps) || !Array.isArray(p.tracks)) errors.push(`profile "${p.name}" has no progress data`);
+    if (p.resume !== null && (!isRecord(p.resume) || !Array.isArray(p.resume.skills))) errors.push(`profile "${p.name}" has an unreadable resume`);
+    (Array.isArray(p.tracks) ? p.tracks : []).forEach((t: unknown, j: number) => {
+      if (!isRecord(t) || typeof t.id !== 'string' || !isRecord(t.role) || typeof t.role.title !== 'string' || !Array.isArray(t.completedSteps) || !isRecord(t.artifacts)) {
+        errors.push(`profile "${p.name}" track ${j + 1} is malformed`);
+      }
+    });
+  });
+  return errors;
+};
+
+export const parseWorkspaceExport = (text: string): WorkspaceExport => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new WorkspaceImportError('The file is not valid JSON.');
+  }
+  if (!isRecord(doc) || doc.format !== EXPORT_FORMAT || typeof doc.schemaVersion !== 'number') {
+    throw new WorkspaceImportError('This is not a workspace export file.');
+  }
+
+  let workspace: Workspace;
+  try {
+    workspace = migrateWorkspace(doc.workspace, doc.schemaVersion);
+  } catch (e) {
+    if (e instanceof NewerSchemaError) throw new WorkspaceImportError(e.message);
+    throw new WorkspaceImportError('The file could not be upgraded to the current format.');
+  }
+
+  const errors = checkWorkspace(workspace);
+  if (errors.length) throw new WorkspaceImportError(`The file is damaged: ${errors.slice(0, 3).join('; ')}.`);
+  if (!workspace.profiles.some(p => p.id === workspace.activeProfileId)) workspace.activeProfileId = workspace.profiles[0].id;
+
+  return { format: EXPORT_FORMAT, schemaVersion: SCHEMA_VERSION, savedAt: typeof doc.savedAt === 'number' ? doc.savedAt : Date.now(), workspace };
+};
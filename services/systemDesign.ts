@@ -0,0 +1,118 @@
+import { DesignDiagram, DesignGrade, DesignPrompt, DesignSection, DiagramEdge, DiagramNode, RubricRating, ServiceResult, SystemDesignSession } from "../types";
+import { createId } from "./workspace";
+import { countWords, rubricScore } from "./rubric";
+
+// --- SYSTEM DESIGN PRACTICE ---
+// Pure helpers for a design session: the structured answer, the box-and-arrow diagram and the rubric.
+
+export const DESIGN_SECTIONS: { id: DesignSection; label: string; hint: string }[] = [
+  { id: 'requirements', label: 'Requirements', hint: 'Functional and non-functional requirements, scale estimates, what is out of scope.' },
+  { id: 'apis', label: 'APIs', hint: 'The main endpoints or interfaces, with their inputs and outputs.' },
+  { id: 'dataModel', label: 'Data model', hint: 'Entities, how they relate and where each is stored.' },
+  { id: 'scaling', label: 'Scaling', hint: 'Caching, sharding, replication, queues and how the design handles growth and failure.' },
+  { id: 'tradeOffs', label: 'Trade-offs', hint: 'The choices you made, the alternatives and why you rejected them.' },
+];
+
+// Titles that usually come with a system design round
+export const isSeniorRole = (title: string): boolean => /\b(senior|sr\.?|staff|lead|principal|architect|head)\b/i.test(title);
+
+const emptyAnswers = (): Record<DesignSection, string> =>
+  Object.fromEntries(DESIGN_SECTIONS.map(s => [s.id, ''])) as Record<DesignSection, string>;
+
+export const createDesignSession = ({ data, ...status }: ServiceResult<DesignPrompt>): SystemDesignSession => ({
+  id: createId(),
+  prompt: data,
+  status,
+  answers: emptyAnswers(),
+  diagram: { nodes: [], edges: [] },
+  startedAt: Date.now(),
+});
+
+// --- Diagram editing ---
+
+export const NODE_WIDTH = 130;
+export const NODE_HEIGHT = 46;
+
+export const addNode = (diagram: DesignDiagram, label: string, x: number, y: number): DesignDiagram => ({
+  ...diagram,
+  nodes: [...diagram.nodes, { id: createId(), label, x, y }],
+});
+
+export const updateNode = (diagram: DesignDiagram, id: string, update: Partial<Omit<DiagramNode, 'id'>>): DesignDiagram => ({
+  ...diagram,
+  nodes: diagram.nodes.map(n => (n.id === id ? { ...n, ...update } : n)),
+});
+
+// Removing a box also removes its arrows
+export const removeNode = (diagram: DesignDiagram, id: string): DesignDiagram => ({
+  nodes: diagram.nodes.filter(n => n.id !== id),
+  edges: diagram.edges.filter(e => e.from !== id && e.to !== id),
+});
+
+// One arrow per direction between two boxes; connecting a box to itself is ignored
+export const addEdge = (diagram: DesignDiagram, from: string, to: string, label: string = ''): DesignDiagram => {
+  if (from === to || diagram.edges.some(e => e.from === from && e.to === to)) return diagram;
+  return { ...diagram, edges: [...diagram.edges, { id: createId(), from, to, label }] };
+};
+
+export const removeEdge = (diagram: DesignDiagram, id: string): DesignDiagram => ({
+  ...diagram,
+  edges: diagram.edges.filter(e => e.id !== id),
+});
+
+// Where the line between two box centres leaves the box, so arrowheads sit on the border
+export const edgeEndpoints = (from: DiagramNode, to: DiagramNode): { x1: number; y1: number; x2: number; y2: number } => {
+  const centre = (n: DiagramNode) => ({ x: n.x + NODE_WIDTH / 2, y: n.y + NODE_HEIGHT / 2 });
+  const a = centre(from);
+  const b = centre(to);
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const t = Math.min(
+    dx === 0 ? Infinity : (NODE_WIDTH / 2) / Math.abs(dx),
+    dy === 0 ? Infinity : (NODE_HEIGHT / 2) / Math.abs(dy),
+    0.5
+  );
+  return { x1: a.x + dx * t, y1: a.y + dy * t, x2: b.x - dx * t, y2: b.y - dy * t };
+};
+
+// Plain-text form of the diagram for the grading prompt
+export const describeDiagram = (diagram: DesignDiagram): string => {
+  if (diagram.nodes.length === 0) return 'No diagram was drawn.';
+  const label = (id: string) => diagram.nodes.find(n => n.id === id)?.label || '?';
+  const edges = diagram.edges.map((e: DiagramEdge) => `- ${label(e.from)} -> ${label(e.to)}${e.label ? ` (${e.label})` : ''}`);
+  return [`Components: ${diagram.nodes.map(n => n.label).join(', ')}`, ...(edges.length ? ['Connections:', ...edges] : [])].join('\n');
+};
+
+// --- Rubric ---
+
+export const designScore = (grade: Pick<DesignGrade, 'rubric'>): number | null => rubricScore(grade.rubric, DESIGN_SECTIONS);
+
+const OFFLINE_FOLLOW_UPS: Record<DesignSection, string> = {
+  requirements: 'How many requests per second and how much stored data do you expect in a year?',
+  apis: 'What does the request and response of your most frequently called endpoint look like?',
+  dataModel: 'Which database would you pick for your main entity, and what is its primary key?',
+  scaling: 'Which component fails first at ten times the load, and what do you do about it?',
+  tradeOffs: 'Where did you choose availability over consistency, or the other way round?',
+};
+
+// Offline stand-in for the AI grade: only checks how thoroughly each section was answered
+export const buildLocalDesignGrade = (session: Pick<SystemDesignSession, 'answers' | 'diagram'>, now: number = Date.now()): DesignGrade => {
+  const rubric = {} as Record<DesignSection, RubricRating>;
+  DESIGN_SECTIONS.forEach(({ id }) => {
+    const words = countWords(session.answers[id]);
+    const score = words === 0 ? 1 : words < 25 ? 2 : words < 60 ? 3 : 4;
+    rubric[id] = { score, comment: words === 0 ? 'Not answered.' : `${words} words. Offline grading checks coverage only, not quality.` };
+  });
+  const thin = DESIGN_SECTIONS.filter(({ id }) => (rubric[id].score || 0) <= 2);
+  return {
+    summary: 'Offline estimate based on how complete each section is. Connect an AI provider for a full rubric grade.',
+    rubric,
+    strengths: DESIGN_SECTIONS.filter(({ id }) => (rubric[id].score || 0) >= 4).map(s => `Detailed ${s.label.toLowerCase()} section`),
+    gaps: [
+      ...thin.map(s => `${s.label} needs more detail`),
+      ...(session.diagram.nodes.length < 3 ? ['Sketch the main components and how requests flow between them'] : []),
+    ],
+    followUpQuestions: (thin.length ? thin : DESIGN_SECTIONS).slice(0, 3).map(s => OFFLINE_FOLLOW_UPS[s.id]),
+    gradedAt: now,
+  };
+};
@@ -0,0 +1,72 @@
+import { InterviewTranscript, TranscriptEvent, TranscriptSpeaker, TranscriptTurn } from "../types";
+import { createId } from "./workspace";
+
+// --- LIVE INTERVIEW TRANSCRIPT ---
+// Pure helpers for the typed transcript: building it during a call, showing, searching and exporting it.
+
+export const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  interviewer: 'Interviewer',
+  candidate: 'You',
+};
+
+export const emptyTranscript = (): InterviewTranscript => ({ turns: [], events: [] });
+
+export const addTurn = (
+  transcript: InterviewTranscript,
+  turn: Omit<TranscriptTurn, 'id' | 'interrupted'> & { interrupted?: boolean }
+): InterviewTranscript => {
+  const entry: TranscriptTurn = { id: createId(), interrupted: false, ...turn };
+  // Turns finishing together (e.g. on turnComplete) still sort by when they started
+  return { ...transcript, turns: [...transcript.turns, entry].sort((a, b) => a.startedAt - b.startedAt) };
+};
+
+export const addEvent = (transcript: InterviewTranscript, message: string, level: TranscriptEvent['level'] = 'info', at: number = Date.now()): InterviewTranscript => ({
+  ...transcript,
+  events: [...transcript.events, { id: createId(), at, message, level }],
+});
+
+export const hasCandidateSpeech = (transcript: InterviewTranscript): boolean =>
+  transcript.turns.some(t => t.speaker === 'candidate');
+
+export type TimelineItem =
+  | { kind: 'turn'; at: number; turn: TranscriptTurn }
+  | { kind: 'event'; at: number; event: TranscriptEvent };
+
+// Speech and events merged in time order for display
+export const transcriptTimeline = (transcript: InterviewTranscript): TimelineItem[] =>
+  [
+    ...transcript.turns.map(turn => ({ kind: 'turn' as const, at: turn.startedAt, turn })),
+    ...transcript.events.map(event => ({ kind: 'event' as const, at: event.at, event })),
+  ].sort((a, b) => a.at - b.at);
+
+// Case-insensitive match on the spoken text; every word of the query must appear
+export const searchTurns = (turns: TranscriptTurn[], query: string): TranscriptTurn[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return turns;
+  return turns.filter(t => {
+    const text = t.text.toLowerCase();
+    return words.every(w => text.includes(w));
+  });
+};
+
+// Time since the interview started, as m:ss
+export const formatElapsed = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Plain-text form, used for downloads and the scorecard prompt
+export const transcriptToText = (transcript: InterviewTranscript, startedAt: number): string =>
+  transcript.turns
+    .map(t => `[${formatElapsed(t.startedAt - startedAt)}] ${SPEAKER_LABELS[t.speaker]}: ${t.text}${t.interrupted ? ' (interrupted)' : ''}`)
+    .join('\n');
+
+// Schema 5 stored the conversation as "AI: " / "You: " prefixed strings without timings.
+// Lines are spaced a millisecond apart so the timeline keeps their original order.
+export const transcriptFromLogs = (logs: string[], at: number): InterviewTranscript =>
+  logs.reduce((transcript, line, i) => {
+    const time = at + i;
+    if (line.startsWith('AI: ')) return addTurn(transcript, { speaker: 'interviewer', text: line.slice(4).trim(), startedAt: time, endedAt: time });
+    if (line.startsWith('You: ')) return addTurn(transcript, { speaker: 'candidate', text: line.slice(5).trim(), startedAt: time, endedAt: time });
+    return addEvent(transcript, line, 'info', time);
+  }, emptyTranscript());
@@ -0,0 +1,533 @@
+import { ParsedResume, SuggestedRole, LearningResource, QuizQuestion, QuestionGrade, QuestionKind, JobListing, ChallengeTestCase, CodingChallenge, CodeReview, CodeReviewCriterion, RubricRating, DesignGrade, DesignPrompt, DesignSection, BehavioralQuestion, StarCriterion, StarFeedback, InterviewAnswerNote, InterviewCriterion, InterviewScorecard } from "../types";
+
+// --- RUNTIME VALIDATION & REPAIR FOR AI RESPONSES ---
+// Each validator either returns a (possibly repaired) value or the list of problems that made it unusable.
+
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];   // fatal problems - value is null when present
+  repairs: string[];  // non-fatal fixes applied to the payload
+}
+
+export type Validator<T> = (input: unknown, path?: string) => ValidationResult<T>;
+
+export class AIValidationError extends Error {
+  errors: string[];
+
+  constructor(context: string, errors: string[]) {
+    super(`${context} returned an invalid response: ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'AIValidationError';
+    this.errors = errors;
+  }
+}
+
+const ok = <T>(value: T, repairs: string[] = []): ValidationResult<T> => ({ value, errors: [], repairs });
+const fail = <T>(errors: string[], repairs: string[] = []): ValidationResult<T> => ({ value: null, errors, repairs });
+
+const isRecord = (input: unknown): input is Record<string, unknown> =>
+  typeof input === 'object' && input !== null && !Array.isArray(input);
+
+// --- Field coercion helpers ---
+
+const readString = (input: unknown, path: string, repairs: string[], errors: string[], fallback?: string): string => {
+  if (typeof input === 'string' && input.trim()) return input.trim();
+  if (typeof input === 'number' || typeof input === 'boolean') {
+    repairs.push(`${path} converted to string`);
+    return String(input);
+  }
+  if (fallback !== undefined) {
+    repairs.push(`${path} missing, defaulted`);
+    return fallback;
+  }
+  errors.push(`${path} should be a non-empty string`);
+  return '';
+};
+
+const readNumber = (input: unknown, path: string, repairs: string[], errors: string[], min: number, max: number): number => {
+  let num = input;
+  if (typeof input === 'string') {
+    num = parseFloat(input.replace(/[^0-9.\-]/g, ''));
+    if (!Number.isNaN(num)) repairs.push(`${path} parsed from string "${input}"`);
+  }
+  if (typeof num !== 'number' || Number.isNaN(num)) {
+    errors.push(`${path} should be a number`);
+    return min;
+  }
+  if (num < min || num > max) {
+    repairs.push(`${path} clamped to ${min}-${max}`);
+    return Math.min(max, Math.max(min, num));
+  }
+  return num;
+};
+
+const readStringList = (input: unknown, path: string, repairs: string[], errors: string[]): string[] => {
+  if (typeof input === 'string') {
+    repairs.push(`${path} split from comma separated string`);
+    return input.split(',').map(s => s.trim()).filter(Boolean);
+  }
+  if (!Array.isArray(input)) {
+    errors.push(`${path} should be an array of strings`);
+    return [];
+  }
+  const list = input
+    .map(item => (typeof item === 'number' ? String(item) : item))
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .map(item => item.trim());
+  if (list.length !== input.length) repairs.push(`${path} dropped ${input.length - list.length} non-string entries`);
+  return list;
+};
+
+const readEnum = <E extends string>(input: unknown, allowed: readonly E[]): E | undefined => {
+  if (typeof input !== 'string') return undefined;
+  return allowed.find(a => a.toLowerCase() === input.trim().toLowerCase());
+};
+
+// --- List helper: invalid items are dropped, the list fails only when nothing usable remains ---
+
+export const listOf = <T>(validateItem: Validator<T>, minItems: number = 1): Validator<T[]> => (input, path = '$') => {
+  let items = input;
+  // Models sometimes wrap the list in an object, e.g. { "questions": [...] }
+  if (isRecord(input)) {
+    const arrayProp = Object.values(input).find(Array.isArray);
+    if (arrayProp) items = arrayProp;
+  }
+  if (!Array.isArray(items)) return fail([`${path} should be an array`]);
+
+  const repairs: string[] = [];
+  const values: T[] = [];
+  items.forEach((item, i) => {
+    const result = validateItem(item, `${path}[${i}]`);
+    repairs.push(...result.repairs);
+    if (result.value) {
+      values.push(result.value);
+    } else {
+      repairs.push(`dropped ${path}[${i}]: ${result.errors.join(', ')}`);
+    }
+  });
+
+  if (values.length < minItems) {
+    return fail([`${path} has ${values.length} valid item(s), expected at least ${minItems}`, ...repairs]);
+  }
+  return ok(values, repairs);
+};
+
+// --- Validators for every AI-generated type in types.ts ---
+
+export const validateSuggestedRole: Validator<SuggestedRole> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  const role: SuggestedRole = {
+    title: readString(input.title, `${path}.title`, repairs, errors),
+    matchScore: readNumber(input.matchScore ?? 0, `${path}.matchScore`, repairs, errors, 0, 100),
+    reasoning: readString(input.reasoning, `${path}.reasoning`, repairs, errors, ''),
+  };
+  if (input.requiredSkills !== undefined) {
+    role.requiredSkills = readStringList(input.requiredSkills, `${path}.requiredSkills`, repairs, errors);
+  }
+  if (typeof input.company === 'string' && input.company.trim()) role.company = input.company.trim();
+
+  return errors.length ? fail(errors, repairs) : ok(role, repairs);
+};
+
+export const validateParsedResume: Validator<ParsedResume> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  const roles = listOf(validateSuggestedRole)(input.suggestedRoles, `${path}.suggestedRoles`);
+  repairs.push(...roles.repairs);
+  errors.push(...roles.errors);
+
+  const resume: ParsedResume = {
+    fullName: readString(input.fullName, `${path}.fullName`, repairs, errors, 'Candidate'),
+    summary: readString(input.summary, `${path}.summary`, repairs, errors, ''),
+    skills: readStringList(input.skills, `${path}.skills`, repairs, errors),
+    yearsOfExperience: readNumber(input.yearsOfExperience ?? 0, `${path}.yearsOfExperience`, repairs, errors, 0, 60),
+    suggestedRoles: roles.value || [],
+  };
+
+  return errors.length ? fail(errors, repairs) : ok(resume, repairs);
+};
+
+const RESOURCE_TYPES: LearningResource['type'][] = ['Course', 'Article', 'Video', 'Documentation'];
+
+export const validateLearningResource: Validator<LearningResource> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  let type = readEnum(input.type, RESOURCE_TYPES);
+  if (!type) {
+    repairs.push(`${path}.type "${String(input.type)}" defaulted to Article`);
+    type = 'Article';
+  }
+
+  const resource: LearningResource = {
+    title: readString(input.title, `${path}.title`, repairs, errors),
+    type,
+    url: readString(input.url, `${path}.url`, repairs, errors, '#'),
+    description: readString(input.description, `${path}.description`, repairs, errors, ''),
+  };
+
+  return errors.length ? fail(errors, repairs) : ok(resource, repairs);
+};
+
+const QUIZ_CATEGORIES = ['Technical', 'Aptitude', 'Behavioral'] as const;
+export const QUESTION_KINDS: QuestionKind[] = ['single', 'multi', 'true-false', 'fill-in', 'ordering', 'free-text'];
+
+// Resolves an option given as an index, a numeric string ("2") or the option's own text
+const readOptionIndex = (input: unknown, options: string[], path: string, repairs: string[], errors: string[]): number => {
+  let index: number = NaN;
+  if (typeof input === 'number') {
+    index = input;
+  } else if (typeof input === 'string') {
+    const byText = options.findIndex(o => o.toLowerCase() === input.trim().toLowerCase());
+    index = byText >= 0 ? byText : parseInt(input, 10);
+    if (!Number.isNaN(index)) repairs.push(`${path} resolved from "${input}"`);
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= options.length) {
+    errors.push(`${path} ${String(input)} is not a valid option index (0-${Math.max(options.length - 1, 0)})`);
+  }
+  return index;
+};
+
+const readBoolean = (input: unknown, path: string, repairs: string[], errors: string[]): boolean => {
+  if (typeof input === 'boolean') return input;
+  if (typeof input === 'string' && /^(true|false)$/i.test(input.trim())) {
+    repairs.push(`${path} parsed from string "${input}"`);
+    return input.trim().toLowerCase() === 'true';
+  }
+  errors.push(`${path} should be true or false`);
+  return false;
+};
+
+// The schema sends every kind as one flat object; this maps it onto the matching QuizQuestion variant.
+// Questions without a kind are the original single-choice format.
+export const validateQuizQuestion: Validator<QuizQuestion> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  let kind = readEnum(input.kind, QUESTION_KINDS);
+  if (!kind) {
+    if (input.kind !== undefined) repairs.push(`${path}.kind "${String(input.kind)}" defaulted to single`);
+    kind = 'single';
+  }
+
+  const category = readEnum(input.category, QUIZ_CATEGORIES);
+  const base = {
+    question: readString(input.question, `${path}.question`, repairs, errors),
+    explanation: readString(input.explanation, `${path}.explanation`, repairs, errors, ''),
+    ...(category && { category }),
+  };
+
+  let quizQuestion: QuizQuestion;
+  switch (kind) {
+    case 'single': {
+      const options = readStringList(input.options, `${path}.options`, repairs, errors);
+      if (options.length < 2) errors.push(`${path}.options needs at least 2 choices`);
+      const correctAnswer = readOptionIndex(input.correctAnswer, options, `${path}.correctAnswer`, repairs, errors);
+      quizQuestion = { ...base, kind, options, correctAnswer };
+      break;
+    }
+    case 'multi': {
+      const options = readStringList(input.options, `${path}.options`, repairs, errors);
+      if (options.length < 2) errors.push(`${path}.options needs at least 2 choices`);
+      const answers: unknown[] = Array.isArray(input.correctAnswers) ? input.correctAnswers : [];
+      const correctAnswers = Array.from(new Set(answers.map((a, i) => readOptionIndex(a, options, `${path}.correctAnswers[${i}]`, repairs, errors))));
+      if (correctAnswers.length === 0) errors.push(`${path}.correctAnswers should list at least one option`);
+      quizQuestion = { ...base, kind, options, correctAnswers };
+      break;
+    }
+    case 'true-false':
+      quizQuestion = { ...base, kind, correctAnswer: readBoolean(input.isTrue ?? input.correctAnswer, `${path}.isTrue`, repairs, errors) };
+      break;
+    case 'fill-in': {
+      const acceptedAnswers = readStringList(input.acceptedAnswers, `${path}.acceptedAnswers`, repairs, errors);
+      if (acceptedAnswers.length === 0) errors.push(`${path}.acceptedAnswers should list at least one answer`);
+      quizQuestion = { ...base, kind, acceptedAnswers };
+      break;
+    }
+    case 'ordering': {
+      const items = readStringList(input.items, `${path}.items`, repairs, errors);
+      if (items.length < 3) errors.push(`${path}.items needs at least 3 steps to order`);
+      quizQuestion = { ...base, kind, items };
+      break;
+    }
+    case 'free-text':
+      quizQuestion = {
+        ...base,
+        kind,
+        modelAnswer: readString(input.modelAnswer, `${path}.modelAnswer`, repairs, errors),
+        keyPoints: input.keyPoints === undefined ? [] : readStringList(input.keyPoints, `${path}.keyPoints`, repairs, errors),
+      };
+      break;
+  }
+
+  return errors.length ? fail(errors, repairs) : ok(quizQuestion, repairs);
+};
+
+export const validateQuestionGrade: Validator<QuestionGrade> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  const score = readNumber(input.score, `${path}.score`, repairs, errors, 0, 100) / 100;
+  const grade: QuestionGrade = {
+    score,
+    correct: typeof input.correct === 'boolean' ? input.correct : score >= 0.5,
+    feedback: readString(input.feedback, `${path}.feedback`, repairs, errors, ''),
+  };
+
+  return errors.length ? fail(errors, repairs) : ok(grade, repairs);
+};
+
+export const validateJobListing: Validator<JobListing> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  const listing: JobListing = {
+    title: readString(input.title, `${path}.title`, repairs, errors),
+    company: readString(input.company, `${path}.company`, repairs, errors, 'Unknown'),
+    location: readString(input.location, `${path}.location`, repairs, errors, 'Unspecified'),
+    url: readString(input.url, `${path}.url`, repairs, errors, '#'),
+  };
+
+  return errors.length ? fail(errors, repairs) : ok(listing, repairs);
+};
+
+// Test values travel as JSON text because the response schema cannot describe arbitrary values
+const readJson = (input: unknown, path: string, repairs: string[], errors: string[]): unknown => {
+  if (typeof input !== 'string') {
+    if (input !== undefined) repairs.push(`${path} was not JSON text, used as is`);
+    else errors.push(`${path} is missing`);
+    return input;
+  }
+  try {
+    return JSON.parse(input);
+  } catch {
+    errors.push(`${path} is not valid JSON`);
+    return undefined;
+  }
+};
+
+export const validateChallengeTestCase: Validator<ChallengeTestCase> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  const args = readJson(input.args, `${path}.args`, repairs, errors);
+  if (!errors.length && !Array.isArray(args)) errors.push(`${path}.args should be a JSON array of arguments`);
+  const test: ChallengeTestCase = {
+    args: Array.isArray(args) ? args : [],
+    expected: readJson(input.expected, `${path}.expected`, repairs, errors),
+    hidden: input.hidden === true || input.hidden === 'true',
+  };
+
+  return errors.length ? fail(errors, repairs) : ok(test, repairs);
+};
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// "function f(a: number[], b?: string): T" -> "a, b"
+const signatureParams = (signature: string): string => {
+  const params = signature.match(/\(([^)]*)\)/)?.[1] || '';
+  // A name counts only when a type, default, comma or the end follows, which skips words inside generic types
+  return Array.from(params.matchAll(/(?:^|,)\s*(\.\.\.)?([A-Za-z_$][\w$]*)\s*\??\s*(?=[:,=]|$)/g), m => `${m[1] || ''}${m[2]}`).join(', ');
+};
+
+export const validateCodingChallenge: Validator<CodingChallenge> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  const functionName = readString(input.functionName, `${path}.functionName`, repairs, errors);
+  if (functionName && !IDENTIFIER.test(functionName)) errors.push(`${path}.functionName "${functionName}" is not a valid identifier`);
+  const signature = readString(input.signature, `${path}.signature`, repairs, errors, `function ${functionName}()`);
+
+  const tests = listOf(validateChallengeTestCase, 2)(input.tests, `${path}.tests`);
+  repairs.push(...tests.repairs);
+  errors.push(...tests.errors);
+  const testCases = tests.value || [];
+  // The candidate needs at least one example to work from
+  if (testCases.length && testCases.every(t => t.hidden)) {
+    testCases[0] = { ...testCases[0], hidden: false };
+    repairs.push(`${path}.tests[0] made visible`);
+  }
+
+  const starterFallback = `${signature.replace(/\s*\{?\s*$/, '')} {\n  // Your code here\n}\n`;
+  const challenge: CodingChallenge = {
+    title: readString(input.title, `${path}.title`, repairs, errors, functionName),
+    description: readString(input.description, `${path}.description`, repairs, errors),
+    functionName,
+    signature,
+    starterCode: {
+      typescript: readString(input.starterCodeTs, `${path}.starterCodeTs`, repairs, errors, starterFallback),
+      javascript: readString(input.starterCodeJs, `${path}.starterCodeJs`, repairs, errors, `function ${functionName}(${signatureParams(signature)}) {\n  // Your code here\n}\n`),
+    },
+    constraints: input.constraints === undefined ? [] : readStringList(input.constraints, `${path}.constraints`, repairs, errors),
+    tests: testCases,
+  };
+
+  return errors.length ? fail(errors, repairs) : ok(challenge, repairs);
+};
+
+const CODE_REVIEW_CRITERIA: CodeReviewCriterion[] = ['correctness', 'complexity', 'readability', 'edgeCases'];
+
+const validateRubricRating: Validator<RubricRating> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  const rating: RubricRating = {
+    score: Math.round(readNumber(input.score, `${path}.score`, repairs, errors, 1, 5)),
+    comment: readString(input.comment, `${path}.comment`, repairs, errors, ''),
+  };
+
+  return errors.length ? fail(errors, repairs) : ok(rating, repairs);
+};
+
+// Criteria the model left out are kept unrated rather than failing the whole response
+const readRubric = <C extends string>(input: unknown, criteria: C[], path: string, repairs: string[], errors: string[]): Record<C, RubricRating> => {
+  const rubricInput = isRecord(input) ? input : {};
+  const rubric = {} as Record<C, RubricRating>;
+  criteria.forEach(criterion => {
+    if (rubricInput[criterion] === undefined) {
+      repairs.push(`${path}.${criterion} missing, left unrated`);
+      rubric[criterion] = { score: null, comment: '' };
+      return;
+    }
+    const rating = validateRubricRating(rubricInput[criterion], `${path}.${criterion}`);
+    repairs.push(...rating.repairs);
+    errors.push(...rating.errors);
+    rubric[criterion] = rating.value || { score: null, comment: '' };
+  });
+  return rubric;
+};
+
+// reviewedCode and reviewedAt are filled in by the caller, not the model
+export const validateCodeReview: Validator<Omit<CodeReview, 'reviewedCode' | 'reviewedAt'>> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  const review = {
+    summary: readString(input.summary, `${path}.summary`, repairs, errors, ''),
+    rubric: readRubric(input.rubric, CODE_REVIEW_CRITERIA, `${path}.rubric`, repairs, errors),
+    timeComplexity: readString(input.timeComplexity, `${path}.timeComplexity`, repairs, errors, 'Unknown'),
+    spaceComplexity: readString(input.spaceComplexity, `${path}.spaceComplexity`, repairs, errors, 'Unknown'),
+    missedEdgeCases: input.missedEdgeCases === undefined ? [] : readStringList(input.missedEdgeCases, `${path}.missedEdgeCases`, repairs, errors),
+    improvedSolution: readString(input.improvedSolution, `${path}.improvedSolution`, repairs, errors, ''),
+  };
+
+  return errors.length ? fail(errors, repairs) : ok(review, repairs);
+};
+
+export const validateDesignPrompt: Validator<DesignPrompt> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  const prompt: DesignPrompt = {
+    title: readString(input.title, `${path}.title`, repairs, errors),
+    scenario: readString(input.scenario, `${path}.scenario`, repairs, errors),
+    constraints: input.constraints === undefined ? [] : readStringList(input.constraints, `${path}.constraints`, repairs, errors),
+    focusAreas: input.focusAreas === undefined ? [] : readStringList(input.focusAreas, `${path}.focusAreas`, repairs, errors),
+  };
+
+  return errors.length ? fail(errors, repairs) : ok(prompt, repairs);
+};
+
+const DESIGN_SECTIONS: DesignSection[] = ['requirements', 'apis', 'dataModel', 'scaling', 'tradeOffs'];
+
+// gradedAt is filled in by the caller
+export const validateDesignGrade: Validator<Omit<DesignGrade, 'gradedAt'>> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+  const optionalList = (value: unknown, field: string) =>
+    value === undefined ? [] : readStringList(value, `${path}.${field}`, repairs, errors);
+
+  const grade = {
+    summary: readString(input.summary, `${path}.summary`, repairs, errors, ''),
+    rubric: readRubric(input.rubric, DESIGN_SECTIONS, `${path}.rubric`, repairs, errors),
+    strengths: optionalList(input.strengths, 'strengths'),
+    gaps: optionalList(input.gaps, 'gaps'),
+    followUpQuestions: optionalList(input.followUpQuestions, 'followUpQuestions'),
+  };
+  if (grade.followUpQuestions.length === 0) errors.push(`${path}.followUpQuestions should list at least one question`);
+
+  return errors.length ? fail(errors, repairs) : ok(grade, repairs);
+};
+
+export const validateBehavioralQuestion: Validator<BehavioralQuestion> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  const question: BehavioralQuestion = {
+    question: readString(input.question, `${path}.question`, repairs, errors),
+    competency: readString(input.competency, `${path}.competency`, repairs, errors, 'General'),
+    lookingFor: readString(input.lookingFor, `${path}.lookingFor`, repairs, errors, ''),
+  };
+
+  return errors.length ? fail(errors, repairs) : ok(question, repairs);
+};
+
+const STAR_CRITERIA: StarCriterion[] = ['situation', 'task', 'action', 'result', 'specificity'];
+
+// Length is measured locally, so only the judgement parts come from the model
+export const validateStarFeedback: Validator<Pick<StarFeedback, 'rubric' | 'summary' | 'suggestedRewrite'>> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  const feedback = {
+    rubric: readRubric(input.rubric, STAR_CRITERIA, `${path}.rubric`, repairs, errors),
+    summary: readString(input.summary, `${path}.summary`, repairs, errors, ''),
+    suggestedRewrite: readString(input.suggestedRewrite, `${path}.suggestedRewrite`, repairs, errors, ''),
+  };
+
+  return errors.length ? fail(errors, repairs) : ok(feedback, repairs);
+};
+
+const validateInterviewAnswerNote: Validator<InterviewAnswerNote> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  const note: InterviewAnswerNote = {
+    question: readString(input.question, `${path}.question`, repairs, errors, ''),
+    answer: readString(input.answer, `${path}.answer`, repairs, errors, ''),
+    note: readString(input.note, `${path}.note`, repairs, errors),
+  };
+
+  return errors.length ? fail(errors, repairs) : ok(note, repairs);
+};
+
+const INTERVIEW_CRITERIA: InterviewCriterion[] = ['communication', 'relevance', 'confidence', 'roleFit'];
+
+export const validateInterviewScorecard: Validator<Omit<InterviewScorecard, 'scoredAt'>> = (input, path = '$') => {
+  if (!isRecord(input)) return fail([`${path} should be an object`]);
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  const notes = input.answerNotes === undefined ? ok<InterviewAnswerNote[]>([]) : listOf(validateInterviewAnswerNote, 0)(input.answerNotes, `${path}.answerNotes`);
+  repairs.push(...notes.repairs);
+  errors.push(...notes.errors);
+
+  const improvements = readStringList(input.improvements, `${path}.improvements`, repairs, errors);
+  if (improvements.length > 3) repairs.push(`${path}.improvements: kept the first 3 of ${improvements.length}`);
+
+  const scorecard = {
+    summary: readString(input.summary, `${path}.summary`, repairs, errors, ''),
+    rubric: readRubric(input.rubric, INTERVIEW_CRITERIA, `${path}.rubric`, repairs, errors),
+    answerNotes: notes.value || [],
+    improvements: improvements.slice(0, 3),
+  };
+
+  return errors.length ? fail(errors, repairs) : ok(scorecard, repairs);
+};
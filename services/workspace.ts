@@ -0,0 +1,166 @@
+import { AppStep, BehavioralStory, CandidateProfile, ParsedResume, RoleTrack, ServiceStatus, SuggestedRole, TrackArtifacts, Workspace } from "../types";
+
+// --- WORKSPACE: SAVED PROFILES & ROLE TRACKS ---
+// Pure helpers over the Workspace tree; App keeps it in state and services/storage persists it.
+
+export const DEFAULT_PROFILE_NAME = 'New Profile';
+
+// Steps that belong to the candidate rather than to a particular role
+export const PROFILE_STEPS = [AppStep.UPLOAD];
+
+export const createId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createProfile = (name: string, resume: ParsedResume | null = null): CandidateProfile => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    name,
+    resume,
+    resumeStatus: null,
+    completedSteps: resume ? [AppStep.UPLOAD] : [],
+    tracks: [],
+    activeTrackId: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+const createTrack = (role: SuggestedRole): RoleTrack => {
+  const now = Date.now();
+  return { id: createId(), role, completedSteps: [], artifacts: {}, createdAt: now, updatedAt: now };
+};
+
+export const getActiveProfile = (workspace: Workspace): CandidateProfile =>
+  workspace.profiles.find(p => p.id === workspace.activeProfileId) || workspace.profiles[0];
+
+export const getActiveTrack = (profile: CandidateProfile): RoleTrack | null =>
+  profile.tracks.find(t => t.id === profile.activeTrackId) || null;
+
+// Profile-level steps plus the active track's steps, as the roadmap sees them
+export const getCompletedSteps = (profile: CandidateProfile): AppStep[] => {
+  const track = getActiveTrack(profile);
+  return Array.from(new Set([...profile.completedSteps, ...(track?.completedSteps || [])]));
+};
+
+export const updateActiveProfile = (workspace: Workspace, update: (p: CandidateProfile) => CandidateProfile): Workspace => ({
+  ...workspace,
+  profiles: workspace.profiles.map(p => (p.id === workspace.activeProfileId ? { ...update(p), updatedAt: Date.now() } : p)),
+});
+
+// Like updateActiveProfile, but for a profile captured earlier; dropped if it has since been deleted
+export const updateProfileFor = (workspace: Workspace, profileId: string, update: (p: CandidateProfile) => CandidateProfile): Workspace => {
+  if (!workspace.profiles.some(p => p.id === profileId)) return workspace;
+  return {
+    ...workspace,
+    profiles: workspace.profiles.map(p => (p.id === profileId ? { ...update(p), updatedAt: Date.now() } : p)),
+  };
+};
+
+export const setProfileResume = (profile: CandidateProfile, resume: ParsedResume): CandidateProfile => ({
+  ...profile,
+  resume,
+  // Name new, unnamed profiles after the candidate
+  name: profile.resume || profile.name !== DEFAULT_PROFILE_NAME ? profile.name : resume.fullName || profile.name,
+});
+
+export const setProfileResumeStatus = (profile: CandidateProfile, resumeStatus: ServiceStatus | null): CandidateProfile => ({
+  ...profile,
+  resumeStatus,
+});
+
+// Selecting a role re-opens its existing track (same title & company) or starts a new one
+export const selectRoleTrack = (profile: CandidateProfile, role: SuggestedRole): CandidateProfile => {
+  const existing = profile.tracks.find(t => t.role.title === role.title && t.role.company === role.company);
+  if (existing) {
+    return {
+      ...profile,
+      activeTrackId: existing.id,
+      tracks: profile.tracks.map(t => (t.id === existing.id ? { ...t, role, updatedAt: Date.now() } : t)),
+    };
+  }
+  const track = createTrack(role);
+  return { ...profile, tracks: [...profile.tracks, track], activeTrackId: track.id };
+};
+
+// Track steps go to the given track (the active one by default); nothing is recorded if it was deleted
+export const completeProfileStep = (profile: CandidateProfile, step: AppStep, trackId: string | null = profile.activeTrackId): CandidateProfile => {
+  if (!trackId || PROFILE_STEPS.includes(step)) {
+    return { ...profile, completedSteps: Array.from(new Set([...profile.completedSteps, step])) };
+  }
+  if (!profile.tracks.some(t => t.id === trackId)) return profile;
+  return {
+    ...profile,
+    tracks: profile.tracks.map(t =>
+      t.id === trackId ? { ...t, completedSteps: Array.from(new Set([...t.completedSteps, step])), updatedAt: Date.now() } : t
+    ),
+  };
+};
+
+// Targets a track by id rather than whichever one is active, so a slow AI response lands on the
+// track that asked for it. If that profile or track has since been deleted the update is dropped.
+export const updateTrackArtifactsFor = (
+  workspace: Workspace,
+  profileId: string,
+  trackId: string,
+  update: (a: TrackArtifacts) => TrackArtifacts
+): Workspace => {
+  const profile = workspace.profiles.find(p => p.id === profileId);
+  if (!profile || !profile.tracks.some(t => t.id === trackId)) return workspace;
+  const now = Date.now();
+  return {
+    ...workspace,
+    profiles: workspace.profiles.map(p => p.id !== profileId ? p : {
+      ...p,
+      updatedAt: now,
+      tracks: p.tracks.map(t => (t.id === trackId ? { ...t, artifacts: update(t.artifacts), updatedAt: now } : t)),
+    }),
+  };
+};
+
+// Sessions whose video is stored outside the workspace document (see services/interviewRecording)
+export const recordedSessionIds = (workspace: Workspace): string[] =>
+  workspace.profiles.flatMap(p => p.tracks.flatMap(t => (t.artifacts.interviews || []).filter(s => s.recording).map(s => s.id)));
+
+// The story bank belongs to the profile, so every role track sees the same stories
+export const updateProfileStories = (profile: CandidateProfile, update: (stories: BehavioralStory[]) => BehavioralStory[]): CandidateProfile => ({
+  ...profile,
+  storyBank: update(profile.storyBank || []),
+});
+
+export const removeTrack = (profile: CandidateProfile, trackId: string): CandidateProfile => ({
+  ...profile,
+  tracks: profile.tracks.filter(t => t.id !== trackId),
+  activeTrackId: profile.activeTrackId === trackId ? null : profile.activeTrackId,
+});
+
+export const resetProfile = (profile: CandidateProfile): CandidateProfile => ({
+  ...createProfile(profile.name),
+  id: profile.id,
+  createdAt: profile.createdAt,
+});
+
+export const removeProfile = (workspace: Workspace, profileId: string): Workspace => {
+  const profiles = workspace.profiles.filter(p => p.id !== profileId);
+  // Always keep at least one profile around
+  if (profiles.length === 0) profiles.push(createProfile(DEFAULT_PROFILE_NAME));
+  return {
+    profiles,
+    activeProfileId: workspace.activeProfileId === profileId ? profiles[0].id : workspace.activeProfileId,
+  };
+};
+
+export const createEmptyWorkspace = (): Workspace => {
+  const profile = createProfile(DEFAULT_PROFILE_NAME);
+  return { profiles: [profile], activeProfileId: profile.id };
+};
+
+// Imported profiles replace local copies of the same profile only when they are newer; others are added
+export const mergeWorkspaces = (current: Workspace, incoming: Workspace): Workspace => {
+  const profiles = [...current.profiles];
+  incoming.profiles.forEach(profile => {
+    const index = profiles.findIndex(p => p.id === profile.id);
+    if (index === -1) profiles.push(profile);
+    else if (profile.updatedAt > profiles[index].updatedAt) profiles[index] = profile;
+  });
+  return { ...current, profiles };
+};
@@ -11,6 +11,16 @@ export interface SuggestedRole {
   matchScore: number;
   reasoning: string;
   requiredSkills?: string[];
+  company?: string;
+  jobDescription?: string; // original posting text when the role came from a pasted JD
+}
+
+export type SkillMatchStatus = 'matched' | 'partial' | 'missing';
+
+export interface SkillMatch {
+  skill: string;          // required skill from the role
+  status: SkillMatchStatus;
+  evidence?: string;      // the candidate skill that matched it
 }
 
 export interface LearningResource {
@@ -20,14 +30,58 @@ export interface LearningResource {
   description: string;
 }
 
-export interface QuizQuestion {
+interface QuizQuestionBase {
   question: string;
-  options: string[];
-  correctAnswer: number; // Index
   explanation: string;
   category?: 'Technical' | 'Aptitude' | 'Behavioral';
 }
 
+export interface SingleChoiceQuestion extends QuizQuestionBase {
+  kind: 'single';
+  options: string[];
+  correctAnswer: number; // Index
+}
+
+export interface MultiSelectQuestion extends QuizQuestionBase {
+  kind: 'multi';
+  options: string[];
+  correctAnswers: number[]; // Indexes
+}
+
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  kind: 'true-false';
+  correctAnswer: boolean;
+}
+
+export interface FillInQuestion extends QuizQuestionBase {
+  kind: 'fill-in';         // question text contains a ___ blank
+  acceptedAnswers: string[];
+}
+
+export interface OrderingQuestion extends QuizQuestionBase {
+  kind: 'ordering';
+  items: string[];         // in the correct order; shuffled when shown
+}
+
+export interface FreeTextQuestion extends QuizQuestionBase {
+  kind: 'free-text';
+  modelAnswer: string;
+  keyPoints: string[];     // what a good answer must mention, used for grading
+}
+
+export type QuizQuestion = SingleChoiceQuestion | MultiSelectQuestion | TrueFalseQuestion | FillInQuestion | OrderingQuestion | FreeTextQuestion;
+export type QuestionKind = QuizQuestion['kind'];
+
+// Answer shape per kind: option index (single), option indexes (multi), boolean (true-false),
+// text (fill-in, free-text) or item indexes in the chosen order (ordering)
+export type QuizAnswer = number | number[] | boolean | string;
+
+export interface QuestionGrade {
+  score: number;    // 0-1, partial credit for multi-select, ordering and free text
+  correct: boolean;
+  feedback?: string;
+}
+
 export interface JobListing {
   title: string;
   company: string;
@@ -35,16 +89,387 @@ export interface JobListing {
   url: string;
 }
 
+// Envelope returned by every AI service call so the UI knows what it is rendering
+// 'local' = computed offline from the user's own input (e.g. heuristic resume parsing)
+// 'bank'  = quiz questions assembled from previously generated ones in the local question bank
+export type DataSource = 'live' | 'cached' | 'local' | 'bank' | 'demo';
+
+export type ServiceErrorCategory = 'offline' | 'auth' | 'quota' | 'network' | 'invalid-response' | 'unsupported' | 'unknown';
+
+export interface ServiceError {
+  category: ServiceErrorCategory;
+  message: string;
+}
+
+export interface ServiceResult<T> {
+  data: T;
+  source: DataSource;
+  error?: ServiceError;
+  cachedAt?: number; // epoch ms, set when source is 'cached'
+}
+
+export type ServiceStatus = Omit<ServiceResult<unknown>, 'data'>;
+
 export enum AppStep {
   UPLOAD = 'Upload',
   ANALYSIS = 'Analysis',
   ROLE_SELECTION = 'Role Selection',
+  JOB_MATCH = 'Job Match',
   TECHNICAL_PREP = 'Technical Prep',
   TECHNICAL_QUIZ = 'Technical Quiz',
+  DAILY_REVIEW = 'Daily Review',
+  CODING_CHALLENGE = 'Coding Challenge',
+  SYSTEM_DESIGN = 'System Design',
+  BEHAVIORAL = 'Behavioral Practice',
   APTITUDE_JOBS = 'Aptitude & Jobs',
   FULL_MOCK = 'Full Mock Test',
   HR_INTERVIEW = 'HR Interview'
 }
 
+// --- Saved profiles & role tracks ---
+export type QuizDifficulty = 'Easy' | 'Medium' | 'Hard';
+
+// Exam mode limits; a quiz without timing is an untimed practice run
+export interface ExamTiming {
+  totalSeconds: number | null;
+  perQuestionSeconds: number | null;
+  maxPauses: number;
+}
+
+// Adaptive quizzes fetch questions in batches and pick each batch's level from the previous answers
+export interface AdaptiveQuizState {
+  targetCount: number;
+  batchSize: number;
+  levels: QuizDifficulty[]; // difficulty of each question asked so far
+}
+
+// In-progress or finished quiz run, persisted so it survives reloads
+export interface QuizSession {
+  id: string;
+  difficulty: QuizDifficulty;
+  questions: QuizQuestion[];
+  status: ServiceStatus | null;
+  answers: (QuizAnswer | null)[];
+  grades: (QuestionGrade | null)[]; // filled in as each question is answered
+  timesMs: number[];          // time spent on each question
+  currentIndex: number;
+  finished: boolean;
+  startedAt: number;
+  questionStartedAt: number;  // when the clock last started running on the current question
+  timing?: ExamTiming;
+  pausedAt?: number | null;
+  pausesUsed?: number;
+  adaptive?: AdaptiveQuizState;
+  kinds?: QuestionKind[];     // question formats requested; older sessions were single choice only
+}
+
+// A finished quiz kept in the role's history for later review
+export interface QuizAttempt {
+  id: string;
+  difficulty: QuizDifficulty;
+  questions: QuizQuestion[];
+  answers: (QuizAnswer | null)[];
+  grades: (QuestionGrade | null)[];
+  timesMs: number[];
+  correctCount: number;
+  startedAt: number;
+  finishedAt: number;
+  passThreshold?: number; // percentage needed to pass, for graded mock tests
+  timing?: ExamTiming;
+  levels?: QuizDifficulty[]; // per-question difficulty, for adaptive attempts
+}
+
+// A missed question scheduled for spaced-repetition review (SM-2)
+export interface ReviewCard {
+  id: string;
+  question: QuizQuestion;
+  source: 'quiz' | 'mock';
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number; // consecutive successful reviews
+  lapses: number;      // times the question was missed again
+  dueAt: number;
+  lastReviewedAt?: number;
+}
+
+// --- Coding challenges ---
+export type CodeLanguage = 'javascript' | 'typescript';
+
+export interface ChallengeTestCase {
+  args: unknown[];   // arguments the function is called with
+  expected: unknown; // return value, compared structurally
+  hidden: boolean;   // hidden tests only report pass/fail
+}
+
+export interface CodingChallenge {
+  title: string;
+  description: string;
+  functionName: string;
+  signature: string; // TypeScript signature, e.g. "function twoSum(nums: number[], target: number): number[]"
+  starterCode: Record<CodeLanguage, string>;
+  constraints: string[];
+  tests: ChallengeTestCase[];
+}
+
+export interface TestResult {
+  passed: boolean;
+  actual?: string; // JSON of the returned value
+  error?: string;
+  timedOut?: boolean;
+  durationMs: number;
+  logs: string[];  // console output captured while the test ran
+}
+
+export type CodeReviewCriterion = 'correctness' | 'complexity' | 'readability' | 'edgeCases';
+
+export interface RubricRating {
+  score: number | null; // 1-5; null when it could not be judged (offline reviews)
+  comment: string;
+}
+
+export interface CodeReview {
+  summary: string;
+  rubric: Record<CodeReviewCriterion, RubricRating>;
+  timeComplexity: string;
+  spaceComplexity: string;
+  missedEdgeCases: string[];
+  improvedSolution: string; // empty when no reference solution is available
+  reviewedCode: string;     // the code as submitted for review, to flag later edits
+  reviewedAt: number;
+}
+
+export interface CodingSession {
+  id: string;
+  difficulty: QuizDifficulty;
+  challenge: CodingChallenge;
+  status: ServiceStatus | null;
+  language: CodeLanguage;
+  code: string;
+  results: (TestResult | null)[] | null; // last run, aligned with challenge.tests; null where a test did not run
+  runs: number;
+  startedAt: number;
+  solvedAt?: number;  // first submission that passed every test
+  review?: ServiceResult<CodeReview>;
+}
+
+// --- System design practice ---
+export type DesignSection = 'requirements' | 'apis' | 'dataModel' | 'scaling' | 'tradeOffs';
+
+export interface DesignPrompt {
+  title: string;
+  scenario: string;
+  constraints: string[];  // scale and product assumptions to design for
+  focusAreas: string[];   // what the interviewer will probe, e.g. "consistency of the feed"
+}
+
+export interface DiagramNode {
+  id: string;
+  label: string;
+  x: number; // top-left corner, in canvas units
+  y: number;
+}
+
+export interface DiagramEdge {
+  id: string;
+  from: string; // node ids
+  to: string;
+  label: string;
+}
+
+export interface DesignDiagram {
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+export interface DesignGrade {
+  summary: string;
+  rubric: Record<DesignSection, RubricRating>;
+  strengths: string[];
+  gaps: string[];
+  followUpQuestions: string[];
+  gradedAt: number;
+}
+
+export interface SystemDesignSession {
+  id: string;
+  prompt: DesignPrompt;
+  status: ServiceStatus | null;
+  answers: Record<DesignSection, string>;
+  diagram: DesignDiagram;
+  startedAt: number;
+  grade?: ServiceResult<DesignGrade>;
+}
+
+// --- Behavioral practice (STAR method) ---
+export interface BehavioralQuestion {
+  question: string;
+  competency: string;  // e.g. "Conflict resolution", "Ownership"
+  lookingFor: string;  // what the interviewer wants to hear
+}
+
+export type StarCriterion = 'situation' | 'task' | 'action' | 'result' | 'specificity';
+
+export interface StarFeedback {
+  rubric: Record<StarCriterion, RubricRating>;
+  wordCount: number;
+  lengthVerdict: 'short' | 'good' | 'long';
+  summary: string;
+  suggestedRewrite: string; // empty when no rewrite is available
+  scoredAnswer: string;     // the answer as it was when scored
+  scoredAt: number;
+}
+
+export interface BehavioralPractice {
+  id: string;
+  questions: BehavioralQuestion[];
+  status: ServiceStatus | null;
+  answers: string[]; // aligned with questions
+  feedback: (ServiceResult<StarFeedback> | null)[];
+  storyIds: (string | null)[]; // story bank entry each answer was saved as
+}
+
+// A polished answer kept on the profile, so it can be reused for any role
+export interface BehavioralStory {
+  id: string;
+  title: string;
+  competency: string;
+  question: string;   // the question it was first written for
+  answer: string;
+  score: number | null;
+  roles: string[];    // role titles it has been used for
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type InterviewCriterion = 'communication' | 'relevance' | 'confidence' | 'roleFit';
+
+export interface InterviewAnswerNote {
+  question: string;
+  answer: string;  // excerpt of the candidate's reply
+  note: string;
+}
+
+// End-of-call evaluation of a live interview
+export interface InterviewScorecard {
+  summary: string;
+  rubric: Record<InterviewCriterion, RubricRating>;
+  answerNotes: InterviewAnswerNote[];
+  improvements: string[]; // top three, most important first
+  scoredAt: number;
+}
+
+// --- Live interview transcript ---
+export type TranscriptSpeaker = 'interviewer' | 'candidate';
+
+export interface TranscriptTurn {
+  id: string;
+  speaker: TranscriptSpeaker;
+  text: string;
+  startedAt: number;     // when the first words were heard
+  endedAt: number;       // when the turn finished or was cut off
+  interrupted: boolean;  // the candidate spoke over the interviewer before it finished
+}
+
+// Connection and status notices, kept apart from what was said
+export interface TranscriptEvent {
+  id: string;
+  at: number;
+  message: string;
+  level: 'info' | 'error';
+}
+
+export interface InterviewTranscript {
+  turns: TranscriptTurn[];   // in the order they started
+  events: TranscriptEvent[];
+}
+
+// --- Live interviewer setup ---
+export type InterviewType = 'hr-screen' | 'technical' | 'hiring-manager' | 'stress' | 'bar-raiser';
+
+export interface InterviewerSettings {
+  type: InterviewType;
+  strictness: 'supportive' | 'balanced' | 'strict';
+  voice: string;           // prebuilt Gemini Live voice name
+  language: string;        // BCP-47 code, e.g. "en-US"
+  lengthMinutes: number;
+  questionCount: number;
+}
+
+export interface QuizWeakArea {
+  category: string;
+  correct: number;
+  total: number;
+}
+
+// What the live interviewer is told about the candidate and the job, built from the active profile and track
+export interface InterviewContext {
+  role: SuggestedRole;        // includes requiredSkills and the pasted job description, when known
+  resume: ParsedResume | null;
+  skillGaps: string[];        // required skills the resume does not show
+  weakAreas: QuizWeakArea[];  // quiz categories answered mostly wrong recently, weakest first
+}
+
+// The video itself is kept in IndexedDB under the session id; this is what the workspace stores about it
+export interface InterviewRecording {
+  mimeType: string;
+  sizeBytes: number;
+  startedAt: number;  // wall-clock time of the first frame, to line the transcript up with the video
+  durationMs: number;
+}
+
+export interface InterviewSession {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  settings?: InterviewerSettings; // absent for interviews recorded before personas existed
+  transcript: InterviewTranscript;
+  scorecard?: ServiceResult<InterviewScorecard>;
+  recording?: InterviewRecording;
+}
+
+// Everything generated or answered while working through a track
+export interface TrackArtifacts {
+  learningResources?: ServiceResult<LearningResource[]>;
+  technicalQuiz?: QuizSession;
+  quizHistory?: QuizAttempt[];
+  aptitudeResources?: ServiceResult<LearningResource[]>;
+  jobs?: ServiceResult<JobListing[]>;
+  mockTest?: QuizSession;
+  mockHistory?: QuizAttempt[];
+  reviewDeck?: ReviewCard[];
+  codingChallenge?: CodingSession;
+  systemDesign?: SystemDesignSession;
+  behavioralPractice?: BehavioralPractice;
+  interviews?: InterviewSession[];
+}
+
+// A track is one role a candidate is preparing for, with its own progress
+export interface RoleTrack {
+  id: string;
+  role: SuggestedRole;
+  completedSteps: AppStep[];
+  artifacts: TrackArtifacts;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CandidateProfile {
+  id: string;
+  name: string;
+  resume: ParsedResume | null;
+  resumeStatus: ServiceStatus | null;
+  completedSteps: AppStep[]; // steps that happen before a role is chosen (upload, analysis)
+  tracks: RoleTrack[];
+  activeTrackId: string | null;
+  storyBank?: BehavioralStory[]; // behavioral answers shared by all of the profile's tracks
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Workspace {
+  profiles: CandidateProfile[];
+  activeProfileId: string;
+}
+
 // For Live API
 export type AudioWorkletNode = any;
\ No newline at end of file